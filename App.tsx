@@ -1,66 +1,36 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { extractDataFromFile, getCompanyInfo } from './services/geminiService';
-import { ProcessableFile, EnrichedData, ExtractedData } from './types';
-import { UploadIcon, CheckIcon, CrossIcon, InfoIcon, PdfIcon, ImageIcon, FileIcon, TrashIcon, CopyIcon, ClearIcon, WordIcon, ExcelIcon, TextIcon, WhatsAppIcon, FacebookIcon, InstagramIcon, ChevronDownIcon, ChevronUpIcon } from './components/icons';
+import { classifyDocument, extractDataFromFile, getCompanyInfo } from './services/extractionService';
+import { getActiveProviderId, PROVIDER_OPTIONS, setActiveProviderId } from './services/providerRegistry';
+import { reconcileDocuments } from './services/reconciliationService';
+import { BLOCKLIST_RULE_LABELS, loadBlocklist, saveBlocklist, screenAgainstBlocklist } from './services/blocklistService';
+import { RESTRICTED_GOODS_RULE_LABELS, loadRestrictedGoods, saveRestrictedGoods, screenGoods } from './services/restrictedGoodsService';
+import { exportBatch, ExportFormat } from './services/exportService';
+import { clearHistory, deleteHistoryEntry, listHistory, saveHistoryEntry } from './services/historyService';
+import { computeFileHash } from './services/fileHash';
+import { applyFieldEdit, formatFieldsForCopy, listDocumentDetails, loadReviewerName, saveReviewerName } from './services/editService';
+import { CacheSettings, loadCacheSettings, saveCacheSettings } from './services/cacheService';
+import { AmountReconciliationSettings, loadAmountReconciliationSettings, reconcileAmounts, saveAmountReconciliationSettings } from './services/amountReconciliationService';
+import { isAbortError, isRateLimitError } from './services/retryService';
+import { formatPageRange, getDocumentType, getFieldValue, getRecordName } from './services/recordService';
+import { expandContainerFiles, ExpandedFile } from './services/containerService';
+import { createWorkerPool, ParseKind, ParseResult, WorkerPool } from './services/workerPool';
+import { ProcessableFile, EnrichedData, BlocklistEntry, HistoryEntry, ProcessingMode, DocumentContent, ExtractedFieldKey, DocumentSplitMode, DocumentDetailKey, RestrictedGoodsRule, AddressParts, OutputScript, TransliterableFieldKey } from './types';
+import { ADDRESS_PART_LABELS, DOCUMENT_DETAIL_FIELDS, EXTRACTED_FIELDS } from './constants';
+import { UploadIcon, CheckIcon, CrossIcon, InfoIcon, PdfIcon, ImageIcon, FileIcon, TrashIcon, CopyIcon, ClearIcon, WordIcon, ExcelIcon, TextIcon, WhatsAppIcon, FacebookIcon, InstagramIcon, ChevronDownIcon, ChevronUpIcon, ShieldIcon, HistoryIcon } from './components/icons';
 import Spinner from './components/Spinner';
-import { Part } from '@google/genai';
-
-// --- Constants ---
-const BANNED_SWIFTS = ['CZCBCN2X', 'CZCBCN2XXXX'];
-
-// --- Worker Code ---
-const WORKER_CODE = `
-  importScripts('https://cdnjs.cloudflare.com/ajax/libs/mammoth/1.6.0/mammoth.browser.min.js');
-  importScripts('https://cdnjs.cloudflare.com/ajax/libs/xlsx/0.18.5/xlsx.full.min.js');
-
-  self.onmessage = async function(e) {
-    const { file, id, type } = e.data;
-    
-    try {
-      let result = null;
-      let mimeType = file.type;
-
-      // Handle DOCX
-      if (type === 'docx' || file.name.endsWith('.docx')) {
-        const arrayBuffer = await file.arrayBuffer();
-        const extraction = await self.mammoth.extractRawText({ arrayBuffer });
-        result = { type: 'text', content: extraction.value };
-      } 
-      // Handle XLSX / XLS
-      else if (type === 'excel' || file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
-        const arrayBuffer = await file.arrayBuffer();
-        const workbook = self.XLSX.read(arrayBuffer, { type: 'buffer' });
-        let fullText = '';
-        for (const sheetName of workbook.SheetNames) { 
-          const worksheet = workbook.Sheets[sheetName];
-          const sheetText = self.XLSX.utils.sheet_to_csv(worksheet);
-          // Changed from template literal to string concatenation for robustness in worker string literal context
-          fullText += '--- ' + sheetName + ' ---\\n' + sheetText + '\\n\\n';
-        }
-        result = { type: 'text', content: fullText };
-      }
-      // Handle Text
-      else if (type === 'text' || file.name.endsWith('.txt')) {
-         const reader = new FileReaderSync();
-         const text = reader.readAsText(file);
-         result = { type: 'text', content: text };
-      }
-      // Handle Image / PDF (Base64)
-      else {
-        const reader = new FileReaderSync();
-        // readAsDataURL returns "data:mime/type;base64,..."
-        const dataUrl = reader.readAsDataURL(file);
-        // Strip the prefix to get raw base64
-        const base64 = dataUrl.split(',')[1];
-        result = { type: 'base64', content: base64, mimeType: dataUrl.split(';')[0].split(':')[1] };
-      }
-
-      self.postMessage({ id, success: true, result });
-    } catch (error) {
-      self.postMessage({ id, success: false, error: error.message });
-    }
-  };
-`;
+import ValidationNote from './components/ValidationNote';
+import DocumentTypeBadge from './components/DocumentTypeBadge';
+import ConfidenceIndicator, { isLowConfidence } from './components/ConfidenceIndicator';
+import EditableValue from './components/EditableValue';
+import BlocklistManager from './components/BlocklistManager';
+import RestrictedGoodsManager from './components/RestrictedGoodsManager';
+import AmountReconciliationPanel from './components/AmountReconciliationPanel';
+import ScriptToggle from './components/ScriptToggle';
+import CompanyReportView from './components/CompanyReportView';
+import { loadOutputScript, needsTransliteration, saveOutputScript } from './services/transliterationService';
+import PaymentMessageGenerator from './components/PaymentMessageGenerator';
+import HistoryPanel from './components/HistoryPanel';
+import CacheControls from './components/CacheControls';
 
 // --- Child Components ---
 
@@ -78,6 +48,17 @@ const Toast: React.FC<{ message: string; show: boolean }> = ({ message, show })
     );
 };
 
+// الصيغة اللاتينية تحت القيمة الأصلية للحقول المكتوبة بالعربية أو الصينية
+const LatinValue: React.FC<{ value?: string }> = ({ value }) => {
+    if (!value) return null;
+    return (
+        <span dir="ltr" className="block text-xs font-mono font-normal text-brand-gray-400 mt-1 text-left" title="الصيغة اللاتينية">
+            {value}
+            {needsTransliteration(value) && <span dir="rtl" className="block text-[10px] font-sans text-amber-400">بعض الأحرف لم تُحوّل إلى اللاتينية</span>}
+        </span>
+    );
+};
+
 const ProgressBar: React.FC<{ progress: number; label: string; estimatedTime?: string | null }> = ({ progress, label, estimatedTime }) => {
     const percentage = Math.min(100, Math.max(0, progress));
     const isFinishing = percentage >= 95;
@@ -170,7 +151,7 @@ const DropZone: React.FC<{ onFilesSelect: (files: File[]) => void; multiple: boo
         <p className="text-sm text-brand-gray-400">اضغط للاختيار أو اسحب وأفلت الملفات هنا</p>
       </div>
 
-      <p className="text-xs mt-4 text-brand-gray-500 pointer-events-none border-t border-brand-gray-700 pt-3 w-2/3">يدعم PDF, الصور, Word, Excel, Text</p>
+      <p className="text-xs mt-4 text-brand-gray-500 pointer-events-none border-t border-brand-gray-700 pt-3 w-2/3">يدعم PDF, الصور, Word (.doc, .docx), Excel, CSV, Text, البريد (.eml, .msg) وملفات ZIP</p>
       
       <input 
         ref={fileInputRef}
@@ -179,34 +160,39 @@ const DropZone: React.FC<{ onFilesSelect: (files: File[]) => void; multiple: boo
         multiple={multiple} 
         onChange={handleFileChange} 
         disabled={disabled} 
-        accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.txt"
+        accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.txt,.csv,.eml,.msg,.zip"
       />
     </div>
   );
 };
 
-const ResultCard: React.FC<{ title: string; data: EnrichedData | null; showCompanyInfo?: boolean }> = ({ title, data, showCompanyInfo = true }) => {
+const ResultCard: React.FC<{
+    title: string;
+    data: EnrichedData | null;
+    blocklist: BlocklistEntry[];
+    restrictedGoods: RestrictedGoodsRule[];
+    outputScript: OutputScript;
+    onOutputScriptChange: (script: OutputScript) => void;
+    showCompanyInfo?: boolean;
+    onFieldChange?: (key: ExtractedFieldKey, value: string) => void;
+}> = ({ title, data, blocklist, restrictedGoods, outputScript, onOutputScriptChange, showCompanyInfo = true, onFieldChange }) => {
     const [copiedSection, setCopiedSection] = useState<'data' | 'info' | null>(null);
     const [isDataExpanded, setIsDataExpanded] = useState(true);
     const [isInfoExpanded, setIsInfoExpanded] = useState(false);
+    const [isPaymentExpanded, setIsPaymentExpanded] = useState(false);
     const [showToast, setShowToast] = useState(false);
 
     if (!data) return null;
 
-    // Check for banned swift globally in the card
-    const hasBannedSwift = data.swiftCode && BANNED_SWIFTS.includes(data.swiftCode);
+    // Check the extracted data against the blocklist rules
+    const blocklistMatches = screenAgainstBlocklist(data, blocklist);
+    const blockedFields = new Set(blocklistMatches.map(m => m.field));
+    const hasBlocklistMatch = blocklistMatches.length > 0;
+    // فحص وصف البضاعة ورموز HS مقابل قائمة البضائع المقيدة
+    const restrictedGoodsMatches = screenGoods(data, restrictedGoods);
+    const hasRestrictedGoodsMatch = restrictedGoodsMatches.length > 0;
     
-    // Updated fields order and labels
-    const dataFields: { key: keyof ExtractedData; label: string }[] = [
-      { key: 'beneficiaryName', label: 'اسم المستفيد' },
-      { key: 'accountNumber', label: 'رقم الحساب' },
-      { key: 'swiftCode', label: 'سويفت البنك' },
-      { key: 'bankName', label: 'أسم البنك' },
-      { key: 'country', label: 'الدولة' },
-      { key: 'province', label: 'المقاطعة أو الولاية' }, // Updated label and order
-      { key: 'city', label: 'المدينة' },
-      { key: 'address', label: 'العنوان' },
-    ];
+    const dataFields = EXTRACTED_FIELDS;
     
     const handleCopy = (section: 'data' | 'info') => {
         if (!data) return;
@@ -214,14 +200,7 @@ const ResultCard: React.FC<{ title: string; data: EnrichedData | null; showCompa
 
         if (section === 'data') {
             const header = "البيانات المستخرجة\n━━━━━━━━━━━━━━━━━━\n\n";
-            const fieldsText = dataFields
-                .map(({ key, label }) => {
-                    const value = data[key as keyof ExtractedData];
-                    // Format: Label on one line, Value on next line
-                    return value ? `${label}:\n${value}` : null;
-                })
-                .filter(Boolean)
-                .join('\n\n');
+            const fieldsText = formatFieldsForCopy(data, outputScript);
             if (fieldsText) {
                 textToCopy = header + fieldsText;
             }
@@ -244,11 +223,38 @@ const ResultCard: React.FC<{ title: string; data: EnrichedData | null; showCompa
     };
   
     return (
-      <div className={`bg-brand-gray-800 p-6 rounded-xl shadow-lg w-full h-fit flex flex-col transition-all duration-300 border ${hasBannedSwift ? 'border-red-500/50 shadow-[0_0_20px_rgba(239,68,68,0.15)]' : 'border-brand-gray-700'} relative`}>
+      <div className={`bg-brand-gray-800 p-6 rounded-xl shadow-lg w-full h-fit flex flex-col transition-all duration-300 border ${hasBlocklistMatch || hasRestrictedGoodsMatch ? 'border-red-500/50 shadow-[0_0_20px_rgba(239,68,68,0.15)]' : 'border-brand-gray-700'} relative`}>
         <Toast message="تم نسخ البيانات بنجاح" show={showToast} />
         
-        {/* Warning Banner for Banned Swift */}
-        {hasBannedSwift && (
+        {/* Warning Banner for Blocklist Matches */}
+        {hasBlocklistMatch && (
+            <div className="mb-4 bg-red-500/10 border border-red-500/30 rounded-lg p-4 flex items-start gap-3 animate-slide-in-fade-in">
+                <div className="bg-red-500/20 p-2 rounded-full flex-shrink-0 text-red-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                    </svg>
+                </div>
+                <div>
+                    <h4 className="text-sm font-bold text-red-400">تحذير أمني: تطابق مع قائمة الحظر</h4>
+                    <p className="text-xs text-brand-gray-300 mt-1 leading-relaxed">
+                        البيانات المستخرجة تطابق القواعد التالية في قائمة الحظر. يرجى الحذر عند التعامل لتجنب أي مشكلات في الحوالات المالية.
+                    </p>
+                    <ul className="mt-2 space-y-1">
+                        {blocklistMatches.map(({ entry, matchedValue }) => (
+                            <li key={entry.id} className="text-xs text-brand-gray-300">
+                                <span className="font-bold text-red-400">{BLOCKLIST_RULE_LABELS[entry.type]}: {entry.value}</span>
+                                {matchedValue !== entry.value && <span className="font-mono"> ({matchedValue})</span>}
+                                {entry.reason && <span> — {entry.reason}</span>}
+                                {entry.source && <span className="text-brand-gray-500"> [المصدر: {entry.source}]</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        )}
+
+        {/* Warning Banner for Restricted Goods */}
+        {hasRestrictedGoodsMatch && (
             <div className="mb-4 bg-red-500/10 border border-red-500/30 rounded-lg p-4 flex items-start gap-3 animate-slide-in-fade-in">
                 <div className="bg-red-500/20 p-2 rounded-full flex-shrink-0 text-red-400">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -256,15 +262,34 @@ const ResultCard: React.FC<{ title: string; data: EnrichedData | null; showCompa
                     </svg>
                 </div>
                 <div>
-                    <h4 className="text-sm font-bold text-red-400">تحذير أمني: بنك محظور</h4>
+                    <h4 className="text-sm font-bold text-red-400">تحذير امتثال: بضائع مقيدة أو مزدوجة الاستخدام</h4>
                     <p className="text-xs text-brand-gray-300 mt-1 leading-relaxed">
-                        رمز السويفت المستخرج ({data.swiftCode}) مدرج في قائمة الحظر. يرجى الحذر عند التعامل مع هذا البنك لتجنب أي مشكلات في الحوالات المالية.
+                        وصف البضاعة أو رموز HS المرشحة تطابق القواعد التالية. يجب مراجعة مسؤول الامتثال قبل اعتماد التحويل.
                     </p>
+                    <ul className="mt-2 space-y-1">
+                        {restrictedGoodsMatches.map(({ rule, matchedValue }) => (
+                            <li key={rule.id} className="text-xs text-brand-gray-300">
+                                <span className="font-bold text-red-400">{RESTRICTED_GOODS_RULE_LABELS[rule.type]}: {rule.value}</span>
+                                {matchedValue !== rule.value && <span className="font-mono"> ({matchedValue})</span>}
+                                {rule.reason && <span> — {rule.reason}</span>}
+                                {rule.source && <span className="text-brand-gray-500"> [المصدر: {rule.source}]</span>}
+                            </li>
+                        ))}
+                    </ul>
                 </div>
             </div>
         )}
 
-        <h3 className="text-xl font-bold text-brand-blue-light mb-4">{title}</h3>
+        <div className="flex items-center gap-3 mb-4">
+            <h3 className="text-xl font-bold text-brand-blue-light">{title}</h3>
+            <DocumentTypeBadge type={data.documentType} />
+        </div>
+        {data.extractedBy === 'rules' && (
+            <p className="-mt-3 mb-4 text-xs text-amber-400">تم الاستخراج محلياً بالقواعد دون استخدام النموذج؛ يرجى مراجعة الحقول.</p>
+        )}
+        {data.extractedBy === 'local' && (
+            <p className="-mt-3 mb-4 text-xs font-bold text-red-400 bg-red-500/10 ring-1 ring-red-500/30 rounded-lg p-2">⚠️ بيانات تجريبية ثابتة وليست مستخرجة من المستند؛ لا تستخدمها في أي تحويل.</p>
+        )}
         
         {/* Extracted Data Section */}
         <div className="mb-2 border border-brand-gray-700 rounded-lg overflow-hidden">
@@ -285,22 +310,71 @@ const ResultCard: React.FC<{ title: string; data: EnrichedData | null; showCompa
             
             {isDataExpanded && (
                 <div className="p-4 bg-brand-gray-800/50 space-y-3 animate-slide-in-fade-in">
+                     {data.latin && Object.keys(data.latin).length > 0 && (
+                         <div className="flex items-center justify-end gap-2 text-xs text-brand-gray-500">
+                             النسخ والتصدير بـ:
+                             <ScriptToggle value={outputScript} onChange={onOutputScriptChange} />
+                         </div>
+                     )}
                      {dataFields.map(({key, label}) => {
-                         const value = data[key as keyof ExtractedData];
-                         if (!value) return null;
+                         const value = getFieldValue(data, key);
+                         // الحقول الفارغة تظهر فقط عند إمكانية التعديل لإضافة قيمة ناقصة
+                         if (!value && !onFieldChange) return null;
                          
-                         const isBannedSwift = key === 'swiftCode' && BANNED_SWIFTS.includes(value);
+                         const isBlocked = blockedFields.has(key);
+                         const validation = data.validation?.[key];
+                         const isInvalid = validation?.status === 'invalid';
+                         const evidence = data.evidence?.[key];
+                         const edit = data.edits?.[key];
                          
                          return (
                             <div key={key} className="border-b border-brand-gray-700/50 last:border-0 pb-3 last:pb-0">
                                 <p className="text-xs font-semibold text-brand-gray-400 uppercase tracking-wider mb-1">{label}</p>
-                                <p className={`${isBannedSwift ? 'text-red-500 font-bold drop-shadow-[0_0_8px_rgba(239,68,68,0.5)]' : 'text-brand-gray-100'} text-right font-mono text-sm break-all`}>
-                                    {value}
-                                    {isBannedSwift && <span className="block text-[10px] text-red-400 font-bold mt-1 bg-red-500/10 p-1 rounded w-fit mr-auto">⚠️ محظور التعامل معه</span>}
+                                <p className={`${isBlocked || isInvalid ? 'text-red-500 font-bold drop-shadow-[0_0_8px_rgba(239,68,68,0.5)]' : 'text-brand-gray-100'} text-right font-mono text-sm break-all`}>
+                                    <EditableValue value={value} edit={edit} onSave={onFieldChange && (newValue => onFieldChange(key, newValue))}>
+                                        {value
+                                            ? <span className={!edit && isLowConfidence(evidence) ? 'underline decoration-dashed decoration-amber-400 underline-offset-4' : ''}>{value}</span>
+                                            : <span className="text-brand-gray-600 font-sans">غير موجود</span>}
+                                    </EditableValue>
+                                    <LatinValue value={data.latin?.[key as TransliterableFieldKey]} />
+                                    {isBlocked && <span className="block text-[10px] text-red-400 font-bold mt-1 bg-red-500/10 p-1 rounded w-fit mr-auto">⚠️ محظور التعامل معه</span>}
+                                    {key === 'country' && data.countryCode && <span className="inline-block text-[10px] text-brand-blue-light bg-brand-blue/10 px-1.5 py-0.5 rounded mr-2" title="ISO 3166-1 alpha-2">{data.countryCode}</span>}
+                                    <ValidationNote validation={validation} />
+                                    {key === 'address' && data.addressParts && (
+                                        <span className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 text-xs font-sans font-normal">
+                                            {(Object.keys(ADDRESS_PART_LABELS) as (keyof AddressParts)[]).filter(part => data.addressParts![part]).map(part => (
+                                                <span key={part} className="text-brand-gray-300"><span className="text-brand-gray-500">{ADDRESS_PART_LABELS[part].label}: </span>{data.addressParts![part]}</span>
+                                            ))}
+                                        </span>
+                                    )}
+                                    {!edit && <ConfidenceIndicator evidence={evidence} />}
                                 </p>
                            </div>
                          );
                      })}
+                     {/* الحقول الخاصة بنوع المستند (للعرض فقط) */}
+                     {listDocumentDetails(data).map(({ key, label, value }) => (
+                         <div key={key} className="border-b border-brand-gray-700/50 last:border-0 pb-3 last:pb-0">
+                             <p className="text-xs font-semibold text-brand-gray-400 uppercase tracking-wider mb-1">{label}</p>
+                             <p className={`text-brand-gray-100 text-right text-sm break-all ${DOCUMENT_DETAIL_FIELDS[key].isMono ? 'font-mono' : ''}`}>{value}</p>
+                         </div>
+                     ))}
+                     {/* وصف البضاعة مع رموز HS المرشحة */}
+                     {data.goodsDescription && (
+                         <div className="border-b border-brand-gray-700/50 last:border-0 pb-3 last:pb-0">
+                             <p className="text-xs font-semibold text-brand-gray-400 uppercase tracking-wider mb-1">وصف البضاعة</p>
+                             <p className={`${hasRestrictedGoodsMatch ? 'text-red-500 font-bold' : 'text-brand-gray-100'} text-right text-sm`}>{data.goodsDescription}</p>
+                             {data.hsCodes && data.hsCodes.length > 0 && (
+                                 <div className="flex flex-wrap gap-1.5 mt-2">
+                                     {data.hsCodes.map(({ code, description, source }) => (
+                                         <span key={code} className="text-[10px] bg-brand-gray-700 text-brand-gray-200 px-2 py-0.5 rounded-full" title={source === 'model' ? 'اقتراح النموذج' : 'اقتراح الجدول المحلي'}>
+                                             <span className="font-mono text-brand-blue-light">HS {code}</span> {description}
+                                         </span>
+                                     ))}
+                                 </div>
+                             )}
+                         </div>
+                     )}
                 </div>
             )}
         </div>
@@ -326,12 +400,14 @@ const ResultCard: React.FC<{ title: string; data: EnrichedData | null; showCompa
                 
                 {isInfoExpanded && (
                     <div className="p-4 bg-brand-gray-800/50 animate-slide-in-fade-in">
-                         <p className="text-sm text-brand-gray-300 whitespace-pre-wrap leading-relaxed">{data.companyInfo}</p>
+                         {data.companyReport
+                            ? <CompanyReportView report={data.companyReport} sources={data.sources ?? []} />
+                            : <p className="text-sm text-brand-gray-300 whitespace-pre-wrap leading-relaxed">{data.companyInfo}</p>}
                          {data.sources?.length && (
                             <div className="mt-3 pt-3 border-t border-brand-gray-700/50">
                                 <h5 className="text-xs font-semibold text-brand-gray-500 mb-2">المصادر:</h5>
                                 <div className="flex flex-wrap gap-2">
-                                    {data.sources.map((s, i) => <a key={i} href={s.uri} target="_blank" rel="noopener noreferrer" className="text-xs bg-brand-gray-700 hover:bg-brand-blue-light text-brand-gray-200 px-2 py-1 rounded-full transition-colors truncate max-w-[200px]">{s.title}</a>)}
+                                    {data.sources.map((s, i) => <a key={i} href={s.uri} target="_blank" rel="noopener noreferrer" className="text-xs bg-brand-gray-700 hover:bg-brand-blue-light text-brand-gray-200 px-2 py-1 rounded-full transition-colors truncate max-w-[200px]">{data.companyReport && `[${i + 1}] `}{s.title}</a>)}
                                 </div>
                             </div>
                         )}
@@ -339,42 +415,60 @@ const ResultCard: React.FC<{ title: string; data: EnrichedData | null; showCompa
                 )}
             </div>
         )}
+
+        {/* Payment Message Section */}
+        <div className="mt-2 border border-brand-gray-700 rounded-lg overflow-hidden">
+            <button 
+                onClick={() => setIsPaymentExpanded(!isPaymentExpanded)}
+                className="w-full flex justify-between items-center p-3 bg-brand-gray-700/50 hover:bg-brand-gray-700 transition-colors"
+            >
+                <h4 className="text-md font-semibold text-brand-gray-200">إنشاء رسالة تحويل (pain.001 / MT103)</h4>
+                {isPaymentExpanded ? <ChevronUpIcon className="w-5 h-5 text-brand-gray-400" /> : <ChevronDownIcon className="w-5 h-5 text-brand-gray-400" />}
+            </button>
+            {isPaymentExpanded && (
+                <div className="p-4 bg-brand-gray-800/50 animate-slide-in-fade-in">
+                    <PaymentMessageGenerator data={data} />
+                </div>
+            )}
+        </div>
       </div>
     );
 };
 
-const ComparisonTable: React.FC<{ files: ProcessableFile[] }> = ({ files }) => {
+const ComparisonTable: React.FC<{
+    files: ProcessableFile[];
+    blocklist: BlocklistEntry[];
+    restrictedGoods: RestrictedGoodsRule[];
+    amountSettings: AmountReconciliationSettings;
+    onAmountSettingsChange: (settings: AmountReconciliationSettings) => void;
+    outputScript: OutputScript;
+    onFieldChange?: (fileId: string, key: ExtractedFieldKey, value: string) => void;
+}> = ({ files, blocklist, restrictedGoods, amountSettings, onAmountSettingsChange, outputScript, onFieldChange }) => {
     // Include files that have data, even if status is 'processing' (intermediate state)
     const results = files
         .filter(f => f.data && (f.status === 'done' || f.status === 'processing'))
-        .map(f => ({ data: f.data!, fileName: f.file.name, isProcessing: f.status === 'processing' }));
+        .map(f => ({ id: f.id, data: f.data!, fileName: getRecordName(f), documentType: getDocumentType(f), isProcessing: f.status === 'processing' }));
         
     const [copiedColumn, setCopiedColumn] = useState<number | null>(null);
     const [showToast, setShowToast] = useState(false);
 
     if (!results || results.length === 0) return null;
 
-    // Updated fields order and labels
-    const fields: { key: keyof ExtractedData; label: string; isMono?: boolean }[] = [
-      { key: 'beneficiaryName', label: 'اسم المستفيد' },
-      { key: 'accountNumber', label: 'رقم الحساب', isMono: true },
-      { key: 'swiftCode', label: 'سويفت البنك', isMono: true },
-      { key: 'bankName', label: 'أسم البنك' },
-      { key: 'country', label: 'الدولة' },
-      { key: 'province', label: 'المقاطعة أو الولاية' }, // Updated label and order
-      { key: 'city', label: 'المدينة' },
-      { key: 'address', label: 'العنوان' },
-    ];
+    const fields = EXTRACTED_FIELDS;
+
+    // مطابقة الحقول بين المستندات (تتطلب مستندين على الأقل)
+    const reconciliation = results.length >= 2 ? reconcileDocuments(results.map(r => r.data)) : {};
+    const fieldsWithDiscrepancies = fields.filter(f => (reconciliation[f.key]?.mismatchedIndices.length ?? 0) > 0);
+    // مطابقة المبالغ بعد التحويل إلى العملة الأساسية
+    const amountReconciliation = results.length >= 2 ? reconcileAmounts(results.map(r => r.data), amountSettings) : null;
+    const blockedFieldsPerFile = results.map(r => new Set(screenAgainstBlocklist(r.data, blocklist).map(m => m.field)));
+    const restrictedGoodsPerFile = results.map(r => screenGoods(r.data, restrictedGoods));
+    // صفوف الحقول الخاصة بأنواع المستندات الموجودة في الدفعة
+    const detailKeys = (Object.keys(DOCUMENT_DETAIL_FIELDS) as DocumentDetailKey[]).filter(key => results.some(r => r.data.details?.[key]));
 
     const handleCopyFile = (index: number, data: EnrichedData, fileName: string) => {
         // Only extracted data fields, no extra info
-        const lines = fields.map(field => {
-            const value = data[field.key];
-            // Format: Label on one line, Value on next line
-            return value ? `${field.label}:\n${value}` : null;
-        }).filter(Boolean);
-
-        const formattedText = `البيانات المستخرجة\n━━━━━━━━━━━━━━━━━━\n\n` + lines.join('\n\n');
+        const formattedText = `البيانات المستخرجة\n━━━━━━━━━━━━━━━━━━\n\n` + formatFieldsForCopy(data, outputScript);
         
         navigator.clipboard.writeText(formattedText);
         setCopiedColumn(index);
@@ -401,8 +495,24 @@ const ComparisonTable: React.FC<{ files: ProcessableFile[] }> = ({ files }) => {
                          <p className="text-sm text-brand-gray-400">عرض شامل للبيانات المستخرجة من {results.length} ملفات</p>
                     </div>
                 </div>
+                {results.length >= 2 && (
+                    <span className={`text-xs font-bold px-3 py-1.5 rounded-full ${fieldsWithDiscrepancies.length ? 'bg-amber-500/10 text-amber-400 ring-1 ring-amber-500/30' : 'bg-green-500/10 text-green-400 ring-1 ring-green-500/30'}`}>
+                        {fieldsWithDiscrepancies.length
+                            ? `⚠️ اختلافات في ${fieldsWithDiscrepancies.length} حقول: ${fieldsWithDiscrepancies.map(f => f.label).join('، ')}`
+                            : '✓ جميع المستندات متطابقة'}
+                    </span>
+                )}
             </div>
 
+            {amountReconciliation && (
+                <AmountReconciliationPanel
+                    result={amountReconciliation}
+                    fileNames={results.map(r => r.fileName)}
+                    settings={amountSettings}
+                    onSettingsChange={onAmountSettingsChange}
+                />
+            )}
+
             {/* Table Content */}
             <div className="overflow-x-auto">
                 {/* table-fixed ensures columns share remaining space equally */}
@@ -419,8 +529,18 @@ const ComparisonTable: React.FC<{ files: ProcessableFile[] }> = ({ files }) => {
                                         <div className="flex items-center gap-2 overflow-hidden">
                                              <span className="text-brand-blue-light font-bold opacity-50">#{index + 1}</span>
                                              <span className="truncate text-brand-gray-200 block" title={res.fileName}>{res.fileName}</span>
+                                             <DocumentTypeBadge type={res.documentType} />
                                         </div>
                                         <div className="flex items-center gap-2 flex-shrink-0">
+                                            {restrictedGoodsPerFile[index].length > 0 && (
+                                                <span className="text-[10px] text-red-400 bg-red-500/10 px-1.5 py-0.5 rounded font-bold" title={restrictedGoodsPerFile[index].map(({ rule }) => `${rule.value}${rule.reason ? ` — ${rule.reason}` : ''}`).join('\n')}>⚠️ بضائع مقيدة</span>
+                                            )}
+                                            {res.data.extractedBy === 'rules' && (
+                                                <span className="text-[10px] text-amber-400 bg-amber-500/10 px-1.5 py-0.5 rounded" title="تم الاستخراج محلياً بالقواعد دون استخدام النموذج">محلي</span>
+                                            )}
+                                            {res.data.extractedBy === 'local' && (
+                                                <span className="text-[10px] font-bold text-red-400 bg-red-500/10 px-1.5 py-0.5 rounded" title="بيانات تجريبية ثابتة وليست مستخرجة من المستند">تجريبي</span>
+                                            )}
                                             {res.isProcessing && (
                                                  <div className="animate-spin h-3 w-3 border-2 border-brand-blue-light border-t-transparent rounded-full" title="جاري استكمال المعلومات..."></div>
                                             )}
@@ -439,6 +559,7 @@ const ComparisonTable: React.FC<{ files: ProcessableFile[] }> = ({ files }) => {
                     </thead>
                     <tbody className="divide-y divide-brand-gray-700/30">
                         {fields.map((field) => {
+                            const fieldReconciliation = reconciliation[field.key];
                             return (
                                 <tr key={field.key} className="group transition-colors hover:bg-brand-gray-700/30 even:bg-brand-gray-800/30 odd:bg-brand-gray-800/10">
                                     <th className="px-6 py-5 font-bold text-brand-gray-200 sticky right-0 z-10 border-l border-brand-gray-700 bg-brand-gray-800 shadow-[4px_0_24px_-2px_rgba(0,0,0,0.5)] group-hover:bg-brand-gray-800/90 transition-colors text-right align-top">
@@ -446,25 +567,52 @@ const ComparisonTable: React.FC<{ files: ProcessableFile[] }> = ({ files }) => {
                                              <span className="w-1.5 h-1.5 rounded-full bg-brand-blue-light/50 group-hover:bg-brand-blue-light transition-colors flex-shrink-0"></span>
                                              <span className="tracking-wide">{field.label}</span>
                                         </div>
+                                        {fieldReconciliation && fieldReconciliation.missingIndices.length < fieldReconciliation.total && (
+                                            <p className={`text-[10px] font-normal mt-1 mr-3.5 ${fieldReconciliation.mismatchedIndices.length ? 'text-amber-400' : 'text-brand-gray-500'}`}>
+                                                {fieldReconciliation.majorityValue
+                                                    ? `${fieldReconciliation.agreeCount} من ${fieldReconciliation.total} مستندات متفقة`
+                                                    : 'لا يوجد اتفاق بين المستندات'}
+                                            </p>
+                                        )}
                                     </th>
                                     {results.map((res, index) => {
-                                        const val = res.data[field.key];
-                                        const isBannedSwift = field.key === 'swiftCode' && val && BANNED_SWIFTS.includes(val);
+                                        const val = getFieldValue(res.data, field.key);
+                                        const isBlocked = !!val && blockedFieldsPerFile[index].has(field.key);
+                                        const validation = res.data.validation?.[field.key];
+                                        const isAmountMismatch = field.key === 'amount' && !!amountReconciliation?.mismatchedIndices.includes(index);
+                                        const isDiscrepant = !!fieldReconciliation?.mismatchedIndices.includes(index) || isAmountMismatch;
+                                        const evidence = res.data.evidence?.[field.key];
+                                        const edit = res.data.edits?.[field.key];
+                                        const canEdit = !!onFieldChange && !res.isProcessing;
 
                                         let cellClass = `px-6 py-5 text-sm align-top border-l border-brand-gray-700/20 last:border-0 transition-colors text-right `;
-                                        if (isBannedSwift) {
+                                        if (isDiscrepant) {
+                                            cellClass += 'bg-amber-500/10 ring-1 ring-inset ring-amber-500/40 ';
+                                        }
+                                        if (isBlocked || validation?.status === 'invalid') {
                                             cellClass += 'font-mono font-bold text-red-500 drop-shadow-[0_0_8px_rgba(239,68,68,0.5)] group-hover:text-red-400';
                                         } else {
                                             cellClass += `${field.isMono ? 'font-mono tracking-tight text-blue-200' : 'font-sans leading-relaxed text-brand-gray-300'} group-hover:text-white`;
                                         }
 
                                         return (
-                                            <td key={index} className={cellClass}>
+                                            <td
+                                                key={index}
+                                                className={cellClass}
+                                                title={isAmountMismatch ? `يتجاوز الفرق المسموح (${amountReconciliation!.tolerancePercent}%) عن المبلغ المرجعي` : isDiscrepant ? (fieldReconciliation?.majorityValue ? `يخالف قيمة الأغلبية: ${fieldReconciliation.majorityValue}` : 'لا توجد قيمة أغلبية لهذا الحقل') : undefined}
+                                            >
                                                <div className="break-words whitespace-pre-wrap w-full">
-                                                  {val ? (
+                                                  {val || canEdit ? (
                                                       <>
-                                                        {val}
-                                                        {isBannedSwift && <span className="block text-[10px] text-red-400 font-bold mt-1 whitespace-nowrap bg-red-500/10 px-1 rounded w-fit mx-auto">⚠️ بنك محظور</span>}
+                                                        <EditableValue value={val || ''} edit={edit} onSave={canEdit ? (newValue => onFieldChange!(res.id, field.key, newValue)) : undefined}>
+                                                            {val
+                                                                ? <span className={!edit && isLowConfidence(evidence) ? 'underline decoration-dashed decoration-amber-400 underline-offset-4' : ''}>{val}</span>
+                                                                : <span className="text-brand-gray-600 opacity-30 select-none text-xl font-light">−</span>}
+                                                        </EditableValue>
+                                                        <LatinValue value={res.data.latin?.[field.key as TransliterableFieldKey]} />
+                                                        {isBlocked && <span className="block text-[10px] text-red-400 font-bold mt-1 whitespace-nowrap bg-red-500/10 px-1 rounded w-fit mx-auto">⚠️ محظور</span>}
+                                                        <ValidationNote validation={validation} />
+                                                        {!edit && <ConfidenceIndicator evidence={evidence} />}
                                                       </>
                                                   ) : <span className="text-brand-gray-600 opacity-30 select-none text-xl font-light">−</span>}
                                                </div>
@@ -474,6 +622,23 @@ const ComparisonTable: React.FC<{ files: ProcessableFile[] }> = ({ files }) => {
                                 </tr>
                             );
                         })}
+                        {detailKeys.map(key => (
+                            <tr key={key} className="group transition-colors hover:bg-brand-gray-700/30 even:bg-brand-gray-800/30 odd:bg-brand-gray-800/10">
+                                <th className="px-6 py-5 font-bold text-brand-gray-400 sticky right-0 z-10 border-l border-brand-gray-700 bg-brand-gray-800 shadow-[4px_0_24px_-2px_rgba(0,0,0,0.5)] group-hover:bg-brand-gray-800/90 transition-colors text-right align-top">
+                                    <div className="flex items-center gap-2 mt-1">
+                                         <span className="w-1.5 h-1.5 rounded-full bg-brand-gray-600 flex-shrink-0"></span>
+                                         <span className="tracking-wide">{DOCUMENT_DETAIL_FIELDS[key].label}</span>
+                                    </div>
+                                </th>
+                                {results.map((res, index) => (
+                                    <td key={index} className={`px-6 py-5 text-sm align-top border-l border-brand-gray-700/20 last:border-0 text-right text-brand-gray-300 ${DOCUMENT_DETAIL_FIELDS[key].isMono ? 'font-mono tracking-tight' : 'font-sans leading-relaxed'}`}>
+                                        <div className="break-words whitespace-pre-wrap w-full">
+                                            {res.data.details?.[key] || <span className="text-brand-gray-600 opacity-30 select-none text-xl font-light">−</span>}
+                                        </div>
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
                     </tbody>
                 </table>
             </div>
@@ -486,90 +651,198 @@ const ComparisonTable: React.FC<{ files: ProcessableFile[] }> = ({ files }) => {
 function App() {
   const [singleFile, setSingleFile] = useState<File | null>(null);
   const [processableFiles, setProcessableFiles] = useState<ProcessableFile[]>([]);
-  const [singleResult, setSingleResult] = useState<EnrichedData | null>(null);
+  const [singleResults, setSingleResults] = useState<EnrichedData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'single' | 'multi'>('single');
+  const [blocklist, setBlocklist] = useState<BlocklistEntry[]>(() => loadBlocklist());
+  const [showBlocklist, setShowBlocklist] = useState(false);
+  const [restrictedGoods, setRestrictedGoods] = useState<RestrictedGoodsRule[]>(() => loadRestrictedGoods());
+  const [showRestrictedGoods, setShowRestrictedGoods] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(() => loadCacheSettings());
+  const [outputScript, setOutputScript] = useState<OutputScript>(() => loadOutputScript());
+  const [amountSettings, setAmountSettings] = useState<AmountReconciliationSettings>(() => loadAmountReconciliationSettings());
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [providerId, setProviderId] = useState(() => getActiveProviderId());
+  const [localFirstPass, setLocalFirstPass] = useState(false);
+  const [reviewerName, setReviewerName] = useState(() => loadReviewerName());
+  const [throttledConcurrency, setThrottledConcurrency] = useState<number | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [splitMode, setSplitMode] = useState<DocumentSplitMode>('auto');
   
   // States for progress bar
   const [progress, setProgress] = useState(0);
   const [processingStatus, setProcessingStatus] = useState<'idle' | 'reading' | 'analyzing'>('idle');
   const [estimatedTime, setEstimatedTime] = useState<string | null>(null);
   
-  // Worker Reference
-  const workerRef = useRef<Worker | null>(null);
-  const workerCallbacks = useRef<Map<string, { resolve: (val: any) => void; reject: (err: any) => void }>>(new Map());
+  // إلغاء المعالجة الجارية (ملف واحد أو دفعة) وإيقاف الدفعة مؤقتاً
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pausedRef = useRef(false);
+  const resumeRef = useRef<(() => void) | null>(null);
+
+  // مجموعة عمال قراءة الملفات (المكتبات مضمنة في البناء دون CDN)
+  const workerPoolRef = useRef<WorkerPool | null>(null);
 
   useEffect(() => {
-    // Initialize Web Worker
-    const blob = new Blob([WORKER_CODE], { type: 'application/javascript' });
-    const worker = new Worker(URL.createObjectURL(blob));
-    workerRef.current = worker;
-
-    worker.onmessage = (e) => {
-        const { id, success, result, error } = e.data;
-        const cb = workerCallbacks.current.get(id);
-        if (cb) {
-            if (success) cb.resolve(result);
-            else cb.reject(new Error(error));
-            workerCallbacks.current.delete(id);
-        }
-    };
-    
+    const pool = createWorkerPool();
+    workerPoolRef.current = pool;
     return () => {
-        worker.terminate();
+        pool.terminate();
     };
   }, []);
 
-  const processFileWithWorker = (file: File, type: 'docx' | 'excel' | 'text' | 'base64'): Promise<{ type: string; content: string; mimeType?: string }> => {
-    return new Promise((resolve, reject) => {
-        if (!workerRef.current) {
-            reject(new Error("Worker not initialized"));
-            return;
-        }
-        const id = Math.random().toString(36).substring(7);
-        workerCallbacks.current.set(id, { resolve, reject });
-        workerRef.current.postMessage({ file, id, type });
-    });
+  const processFileWithWorker = (file: File, kind: ParseKind, signal?: AbortSignal): Promise<ParseResult> => {
+    if (!workerPoolRef.current) return Promise.reject(new Error("Worker pool not initialized"));
+    return workerPoolRef.current.run(file, kind, { signal });
   };
 
-  const prepareContentPart = async (file: File, onProgress?: (percent: number) => void): Promise<Part> => {
-    const { type, name } = file;
+  const prepareContentPart = async (file: File, onProgress?: (percent: number) => void, signal?: AbortSignal): Promise<DocumentContent> => {
+    const { type } = file;
+    // الامتدادات قد تأتي بأحرف كبيرة (مثل INVOICE.DOC) خاصة من أجهزة المسح والبريد
+    const name = file.name.toLowerCase();
     let result;
 
     try {
-        if (type.startsWith('image/') || type === 'application/pdf') {
-            result = await processFileWithWorker(file, 'base64');
+        // PDF: طبقة النص تُقرأ محلياً، والصفحات الممسوحة ضوئياً فقط تُرسل للنموذج كملف
+        if (type === 'application/pdf' || name.endsWith('.pdf')) {
+            result = await processFileWithWorker(file, 'pdf', signal);
+            if (onProgress) onProgress(100);
+            if (result.type === 'text') return { kind: 'text', text: result.content };
+            if (result.type === 'mixed') {
+                return { kind: 'mixed', text: result.content, mimeType: 'application/pdf', data: result.scanned!.data, scannedPages: result.scanned!.pages };
+            }
+            return { kind: 'inline', mimeType: 'application/pdf', data: result.content };
+        }
+        else if (type.startsWith('image/')) {
+            result = await processFileWithWorker(file, 'base64', signal);
             if (onProgress) onProgress(100);
-            return { inlineData: { mimeType: result.mimeType || type, data: result.content } };
+            return { kind: 'inline', mimeType: result.mimeType || type, data: result.content };
         } 
         else if (type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) { // Corrected MIME type
-            result = await processFileWithWorker(file, 'docx');
+            result = await processFileWithWorker(file, 'docx', signal);
             if (onProgress) onProgress(100);
-            return { text: result.content };
+            return { kind: 'text', text: result.content };
         } 
+        else if (type === 'application/msword' || name.endsWith('.doc')) {
+            result = await processFileWithWorker(file, 'doc', signal);
+            if (onProgress) onProgress(100);
+            return { kind: 'text', text: result.content };
+        }
         else if (type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || name.endsWith('.xlsx') || name.endsWith('.xls')) {
-            result = await processFileWithWorker(file, 'excel');
+            result = await processFileWithWorker(file, 'excel', signal);
             if (onProgress) onProgress(100);
-            return { text: result.content };
+            return { kind: 'text', text: result.content };
         } 
-        else if (type.startsWith('text/') || name.endsWith('.txt')) {
-            result = await processFileWithWorker(file, 'text');
+        // CSV قد يصل بنوع application/vnd.ms-excel على Windows، لذا نعتمد على الامتداد أيضاً
+        else if (type.startsWith('text/') || name.endsWith('.txt') || name.endsWith('.csv')) {
+            result = await processFileWithWorker(file, 'text', signal);
             if (onProgress) onProgress(100);
-            return { text: result.content };
+            return { kind: 'text', text: result.content };
         }
         
         // Fallback for generic binary types that might not have exact mime types
         // Try to process as base64 first (e.g., from Drive)
-        result = await processFileWithWorker(file, 'base64');
+        result = await processFileWithWorker(file, 'base64', signal);
         if (onProgress) onProgress(100);
-        return { inlineData: { mimeType: result.mimeType || 'application/octet-stream', data: result.content } };
+        return { kind: 'inline', mimeType: result.mimeType || 'application/octet-stream', data: result.content };
     } catch (e: any) {
+        if (isAbortError(e)) throw e;
         console.error(`Error processing file ${file.name} with worker:`, e);
         throw new Error(`فشل في قراءة الملف أو نوعه غير مدعوم: ${file.name} (${e.message}). يرجى التأكد من أن الملف سليم ومن نوع مدعوم.`);
     }
   };
 
+  useEffect(() => {
+    saveBlocklist(blocklist);
+  }, [blocklist]);
+
+  useEffect(() => {
+    saveRestrictedGoods(restrictedGoods);
+  }, [restrictedGoods]);
+
+  useEffect(() => {
+    setActiveProviderId(providerId);
+  }, [providerId]);
+
+  useEffect(() => {
+    saveCacheSettings(cacheSettings);
+  }, [cacheSettings]);
+
+  useEffect(() => {
+    saveAmountReconciliationSettings(amountSettings);
+  }, [amountSettings]);
+
+  useEffect(() => {
+    saveOutputScript(outputScript);
+  }, [outputScript]);
+
+  useEffect(() => {
+    listHistory().then(setHistory).catch(e => console.error("Failed to load history from IndexedDB:", e));
+  }, []);
+
+  // حفظ النتيجة في السجل المحلي؛ الفشل هنا لا يجب أن يؤثر على عرض النتيجة
+  const recordHistory = async (fileName: string, contentHash: string, data: EnrichedData, mode: ProcessingMode) => {
+    try {
+      const entry = await saveHistoryEntry(fileName, contentHash, data, mode);
+      setHistory(prev => [entry, ...prev]);
+    } catch (e) {
+      console.error(`Failed to save ${fileName} to history:`, e);
+    }
+  };
+
+  useEffect(() => {
+    saveReviewerName(reviewerName);
+  }, [reviewerName]);
+
+  const handleSingleFieldChange = (index: number, key: ExtractedFieldKey, value: string) => {
+    setSingleResults(prev => prev.map((data, i) => i === index ? applyFieldEdit(data, key, value, reviewerName) : data));
+  };
+
+  const handleBatchFieldChange = (fileId: string, key: ExtractedFieldKey, value: string) => {
+    setProcessableFiles(prev => prev.map(f => f.id === fileId && f.data ? { ...f, data: applyFieldEdit(f.data, key, value, reviewerName) } : f));
+  };
+
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    setError(null);
+    setActiveTab('single');
+    setSingleFile(null);
+    setSingleResults([entry.data]);
+  };
+
+  const handleAddHistoryEntryToBatch = (entry: HistoryEntry) => {
+    setError(null);
+    setActiveTab('multi');
+    setSingleFile(null);
+    setSingleResults([]);
+    const id = `history-${entry.id}`;
+    setProcessableFiles(prev => prev.some(f => f.id === id)
+      ? prev
+      : [...prev, { id, file: new File([], entry.fileName), status: 'done', data: entry.data, documentType: entry.data.documentType, fromHistory: true }]);
+  };
+
+  // الحذف من الواجهة بعد تأكيد حذفه من IndexedDB فقط، حتى لا يظهر السجل محذوفاً وهو محفوظ
+  const handleDeleteHistoryEntry = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setHistory(prev => prev.filter(e => e.id !== id));
+    } catch (e) {
+      console.error("Failed to delete history entry:", e);
+      setError("فشل في حذف السجل من التخزين المحلي. حاول مرة أخرى.");
+    }
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await clearHistory();
+      setHistory([]);
+    } catch (e) {
+      console.error("Failed to clear history:", e);
+      setError("فشل في مسح السجل من التخزين المحلي. حاول مرة أخرى.");
+    }
+  };
+
   useEffect(() => {
     const handlePaste = (event: ClipboardEvent) => {
       if (isLoading) return;
@@ -587,19 +860,35 @@ function App() {
     return () => window.removeEventListener('paste', handlePaste);
   }, [activeTab, isLoading]); // Depend on activeTab to get the latest value
 
-  const handleFilesSelected = (files: File[]) => {
+  const handleFilesSelected = async (files: File[]) => {
       setError(null);
-      if (activeTab === 'single') {
-        setSingleFile(files[0]);
-        setSingleResult(null);
+      // فك ملفات ZIP ورسائل البريد إلى ملفاتها الداخلية
+      let expanded: ExpandedFile[];
+      try {
+        expanded = await expandContainerFiles(files);
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+
+      if (activeTab === 'single' && expanded.length === 1) {
+        setSingleFile(expanded[0].file);
+        setSingleResults([]);
         // Clear multi-file state to avoid confusion if we switched from multi to single
         setProcessableFiles([]); 
-      } else { // activeTab === 'multi'
-        const newProcessableFiles = files.map(file => ({ file, status: 'pending' as const, id: `${file.name}-${Date.now()}-${Math.random()}` }));
+      } else { // activeTab === 'multi', or a container with several files dropped in single mode
+        setActiveTab('multi');
+        const batchId = `${Date.now()}-${Math.random()}`;
+        const newProcessableFiles: ProcessableFile[] = expanded.map(({ file, parentName }) => ({
+          file,
+          status: 'pending' as const,
+          id: `${file.name}-${Date.now()}-${Math.random()}`,
+          parent: parentName ? { id: `${batchId}-${parentName}`, name: parentName } : undefined,
+        }));
         setProcessableFiles(prev => [...prev, ...newProcessableFiles]);
         // Clear single-file state to avoid confusion if we switched from single to multi
         setSingleFile(null);
-        setSingleResult(null);
+        setSingleResults([]);
       }
   };
 
@@ -607,7 +896,7 @@ function App() {
     setError(null);
     if (activeTab === 'single') {
       setSingleFile(null);
-      setSingleResult(null);
+      setSingleResults([]);
       setProcessingStatus('idle');
       setProgress(0);
       setEstimatedTime(null);
@@ -620,23 +909,40 @@ function App() {
     setProcessableFiles(files => files.filter(f => f.id !== idToRemove));
   };
 
+  // إزالة جميع الملفات المستخرجة من نفس الحاوية
+  const handleRemoveParentGroup = (parentId: string) => {
+    setProcessableFiles(files => files.filter(f => f.parent?.id !== parentId));
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      exportBatch(processableFiles, format, outputScript);
+    } catch (err: any) {
+      setError(err.message || 'فشل في تصدير البيانات.');
+    }
+  };
+
   const handleProcessSingleFile = useCallback(async () => {
     if (!singleFile) return;
     setIsLoading(true);
     setError(null);
-    setSingleResult(null);
+    setSingleResults([]);
     setProcessingStatus('reading');
     setProgress(0);
     setEstimatedTime(null);
 
     let intervalId: any;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
 
     try {
       // Reading phase: 0% to 30%
+      const fileHash = await computeFileHash(singleFile);
       const contentPart = await prepareContentPart(singleFile, (percent) => {
           // Reading is the first 30% of the total progress
           setProgress(Math.round(percent * 0.3));
-      });
+      }, signal);
 
       setProcessingStatus('analyzing');
       
@@ -662,8 +968,12 @@ function App() {
           }
       }, stepTime / 1.5); // Speed up slightly to feel responsive
 
-      const extractedData = await extractDataFromFile(contentPart);
-      const { info, sources } = await getCompanyInfo(extractedData.beneficiaryName, extractedData.bankName, extractedData.goodsDescription);
+      const documentType = await classifyDocument(contentPart, { fileHash, forceRefresh, signal });
+      const records = await extractDataFromFile(contentPart, { fileHash, forceRefresh, localFirstPass, signal, splitMode, documentType });
+      const enrichedRecords = await Promise.all(records.map(async (data): Promise<EnrichedData> => {
+          const { info, report, sources, error: enrichmentError } = await getCompanyInfo(data.beneficiaryName, data.bankName, data.goodsDescription, data.swiftCode, { forceRefresh, signal });
+          return { ...data, companyInfo: info, companyReport: report, sources, enrichmentError };
+      }));
       
       setProgress(100);
       setEstimatedTime("تم!");
@@ -671,67 +981,123 @@ function App() {
       // Short delay to let user see 100%
       await new Promise(r => setTimeout(r, 500));
 
-      setSingleResult({ ...extractedData, companyInfo: info, sources });
+      setSingleResults(enrichedRecords);
+      enrichedRecords.forEach((data, i) => {
+          const name = enrichedRecords.length > 1 ? `${singleFile.name} (${i + 1}/${enrichedRecords.length})` : singleFile.name;
+          recordHistory(name, fileHash, data, 'single');
+      });
     } catch (err: any) {
+      // الإلغاء بطلب المستخدم ليس خطأ؛ يبقى الملف جاهزاً لإعادة المعالجة
+      if (isAbortError(err) || signal.aborted) return;
       console.error("Error processing single file:", err);
       // Display specific error message to user
       setError(err.message || 'حدث خطأ غير متوقع أثناء معالجة الملف. يرجى المحاولة مرة أخرى.');
     } finally {
       clearInterval(intervalId);
+      abortControllerRef.current = null;
       setIsLoading(false);
       setProcessingStatus('idle');
     }
-  }, [singleFile]);
+  }, [singleFile, forceRefresh, localFirstPass, splitMode]);
   
-  const handleProcessMultiFile = useCallback(async () => {
-    // Identify pending files
-    const filesToProcess = processableFiles.filter(pf => pf.status === 'pending');
-    
-    if (filesToProcess.length === 0 && processableFiles.filter(pf => pf.data).length < 2) {
-      setError("يرجى رفع ملفين على الأقل للاستخراج المتعدد. يمكنك استخدام وضع 'فحص ملف واحد' لملف واحد.");
-      return;
-    }
-    
-    if (filesToProcess.length === 0) return;
-
+  // --- Queue/Concurrency Configuration ---
+  const runBatchQueue = useCallback(async (filesToProcess: ProcessableFile[]) => {
     setIsLoading(true);
     setError(null); // Clear overall error for multi-file processing, individual errors are per file
 
-    // --- Queue/Concurrency Configuration ---
-    const CONCURRENCY_LIMIT = 5; // Increased limit for better parallel performance
+    // التوازي يتكيف مع حد الطلبات: يُنصَّف عند كل رد 429 ويزيد ملفاً واحداً بعد كل نجاح
+    const CONCURRENCY_LIMIT = 5;
+    let concurrency = CONCURRENCY_LIMIT;
     const queue = [...filesToProcess];
     const activePromises: Promise<void>[] = [];
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
+    const onRetry = (error: unknown) => {
+        if (!isRateLimitError(error)) return;
+        concurrency = Math.max(1, Math.floor(concurrency / 2));
+        setThrottledConcurrency(concurrency);
+    };
+    const onSuccess = () => {
+        if (concurrency >= CONCURRENCY_LIMIT) return;
+        concurrency++;
+        setThrottledConcurrency(concurrency < CONCURRENCY_LIMIT ? concurrency : null);
+    };
 
     // --- Helper to process a single file from queue ---
     const processOneFile = async (pf: ProcessableFile) => {
+        // ملف مستخرج فشل إثراؤه فقط: نعيد البحث دون إعادة الاستخراج حتى لا نفقد التعديلات اليدوية
+        const enrichmentOnly = pf.status === 'done' && !!pf.data;
+
         // Mark as processing
         setProcessableFiles(prev => prev.map(f => f.id === pf.id ? { ...f, status: 'processing', error: undefined } : f)); // Clear previous errors
         
+        // معرفات الصفوف الناتجة عن هذا الملف بعد تقسيمه إلى سجلات
+        let rowIds = [pf.id];
+        
         try {
-            const part = await prepareContentPart(pf.file);
-            
-            // Step 1: Extract Data (OCR/Parsing)
-            const data = await extractDataFromFile(part);
-            
-            // IMMEDIATE UPDATE: Show data in table as soon as extraction is done, before searching for extra info.
-            // This significantly reduces perceived latency.
-            setProcessableFiles(prev => prev.map(f => f.id === pf.id ? { ...f, data: data } : f));
-            
-            // Step 2: Enrich Data (Google Search) - Happens in background while data is already visible
-            const { info, sources } = await getCompanyInfo(data.beneficiaryName, data.bankName, data.goodsDescription);
-            const enrichedData: EnrichedData = { ...data, companyInfo: info, sources };
+            let rows: { id: string; data: EnrichedData }[];
+            let fileHash = '';
+            if (enrichmentOnly) {
+                rows = [{ id: pf.id, data: pf.data! }];
+            } else if (pf.fromHistory) {
+                throw new Error('لا يمكن إعادة استخراج سجل مضاف من السجل لأن الملف الأصلي غير محفوظ؛ ارفع الملف مرة أخرى.');
+            } else {
+                fileHash = await computeFileHash(pf.file);
+                const part = await prepareContentPart(pf.file, undefined, signal);
+
+                // Step 1: Classify the document so the matching schema is used, and show its type right away
+                const documentType = await classifyDocument(part, { fileHash, forceRefresh, onRetry, signal });
+                setProcessableFiles(prev => prev.map(f => f.id === pf.id ? { ...f, documentType } : f));
+                
+                // Step 2: Extract Data (OCR/Parsing) - one record per beneficiary/page/section
+                const records = await extractDataFromFile(part, { fileHash, forceRefresh, localFirstPass, onRetry, signal, splitMode, documentType });
+                rows = records.map((data, i) => ({ id: records.length > 1 ? `${pf.id}#${i + 1}` : pf.id, data }));
+                rowIds = rows.map(row => row.id);
+                
+                // IMMEDIATE UPDATE: Show data in table as soon as extraction is done, before searching for extra info.
+                // This significantly reduces perceived latency. A file with several records becomes one row per record.
+                setProcessableFiles(prev => prev.flatMap(f => f.id === pf.id
+                    ? rows.map((row, i) => ({ ...f, id: row.id, data: row.data, record: rows.length > 1 ? { index: i + 1, total: rows.length } : undefined }))
+                    : [f]));
+            }
             
-            // Final Update: Mark as done and add extra info
-            setProcessableFiles(prev => prev.map(f => f.id === pf.id ? { ...f, status: 'done', data: enrichedData } : f));
+            // Step 3: Enrich Data (Google Search) - Happens in background while data is already visible
+            await Promise.all(rows.map(async ({ id, data }, i) => {
+                const { info, report, sources, error: enrichmentError } = await getCompanyInfo(data.beneficiaryName, data.bankName, data.goodsDescription, data.swiftCode, { forceRefresh, onRetry, signal });
+                const enrichedData: EnrichedData = { ...data, companyInfo: info, companyReport: report, sources, enrichmentError };
+                
+                // Final Update: Mark as done and add extra info
+                setProcessableFiles(prev => prev.map(f => f.id === id ? { ...f, status: 'done', data: enrichedData } : f));
+                if (!enrichmentOnly) {
+                    const record = rows.length > 1 ? { index: i + 1, total: rows.length } : undefined;
+                    recordHistory(getRecordName({ ...pf, data: enrichedData, record }), fileHash, enrichedData, 'multi');
+                }
+                if (!enrichmentError) onSuccess();
+            }));
         } catch (err: any) {
+            // الملفات الملغاة تعود لحالتها السابقة بدل تسجيلها كخطأ، والسجلات المقسمة تُدمج في صف الملف الأصلي
+            if (isAbortError(err) || signal.aborted) {
+                let restored = false;
+                setProcessableFiles(prev => prev.flatMap(f => {
+                    if (!rowIds.includes(f.id)) return [f];
+                    if (enrichmentOnly) return [{ ...f, status: 'done' as const, data: pf.data }];
+                    if (restored) return [];
+                    restored = true;
+                    return [{ ...pf, status: 'pending' as const, data: undefined, error: undefined, record: undefined, documentType: undefined }];
+                }));
+                return;
+            }
             console.error(`Error processing file ${pf.file.name}:`, err);
-            setProcessableFiles(prev => prev.map(f => f.id === pf.id ? { ...f, status: 'error', error: err.message || 'خطأ غير معروف أثناء المعالجة.' } : f));
+            setProcessableFiles(prev => prev.map(f => f.id === pf.id ? { ...f, status: enrichmentOnly ? 'done' : 'error', error: err.message || 'خطأ غير معروف أثناء المعالجة.' } : f));
         }
     };
 
     // --- Queue Execution Logic ---
-    while (queue.length > 0 || activePromises.length > 0) {
-        while (queue.length > 0 && activePromises.length < CONCURRENCY_LIMIT) {
+    // الإيقاف المؤقت يمنع بدء ملفات جديدة ويترك الملفات الجارية تكتمل؛ الإلغاء يوقف الجميع
+    while (true) {
+        while (queue.length > 0 && activePromises.length < concurrency && !pausedRef.current && !signal.aborted) {
             const file = queue.shift()!;
             const promise = processOneFile(file).then(() => {
                 // Remove the promise from activePromises once it settles
@@ -742,23 +1108,68 @@ function App() {
         if (activePromises.length > 0) {
             // Wait for at least one active promise to complete before continuing
             await Promise.race(activePromises);
-        } else if (queue.length > 0) {
-             // This case should ideally not happen if CONCURRENCY_LIMIT is positive and queue.length > 0
-             // but added as a safeguard to prevent infinite loops if activePromises somehow remains empty while queue still has items
-            await new Promise(resolve => setTimeout(resolve, 100)); 
+            continue;
         }
+        if (queue.length === 0 || signal.aborted) break;
+        // Paused with nothing in flight: wait for resume or cancel
+        await new Promise<void>(resolve => { resumeRef.current = resolve; });
     }
 
+    abortControllerRef.current = null;
+    pausedRef.current = false;
+    resumeRef.current = null;
+    setIsPaused(false);
+    setThrottledConcurrency(null);
     setIsLoading(false);
-  }, [processableFiles]);
+  }, [forceRefresh, localFirstPass, splitMode]);
+
+  const handleTogglePause = () => {
+    pausedRef.current = !pausedRef.current;
+    setIsPaused(pausedRef.current);
+    if (!pausedRef.current) {
+      resumeRef.current?.();
+      resumeRef.current = null;
+    }
+  };
+
+  const handleCancelProcessing = () => {
+    abortControllerRef.current?.abort();
+    // تحرير الطابور إن كان متوقفاً مؤقتاً حتى ينهي حلقته
+    resumeRef.current?.();
+    resumeRef.current = null;
+  };
+
+  const handleProcessMultiFile = useCallback(async () => {
+    // Identify pending files
+    const filesToProcess = processableFiles.filter(pf => pf.status === 'pending');
+    
+    if (filesToProcess.length === 0 && processableFiles.filter(pf => pf.data).length < 2) {
+      setError("يرجى رفع ملفين على الأقل للاستخراج المتعدد. يمكنك استخدام وضع 'فحص ملف واحد' لملف واحد.");
+      return;
+    }
+    
+    if (filesToProcess.length === 0) return;
+
+    await runBatchQueue(filesToProcess);
+  }, [processableFiles, runBatchQueue]);
+
+  // الملفات التي فشل استخراجها، أو استُخرجت وفشل جلب معلوماتها الإضافية
+  // صفوف السجل لا يُعاد استخراجها، ويمكن فقط إعادة جلب معلوماتها الإضافية
+  const needsRetry = (pf: ProcessableFile) => (pf.status === 'error' && !pf.fromHistory) || (pf.status === 'done' && !!pf.data?.enrichmentError);
+
+  const handleRetryFiles = (ids?: string[]) => {
+    const filesToRetry = processableFiles.filter(pf => needsRetry(pf) && (!ids || ids.includes(pf.id)));
+    if (filesToRetry.length > 0) runBatchQueue(filesToRetry);
+  };
   
   const getFileIcon = (file: File, className: string) => {
-    const { type, name } = file;
+    const { type } = file;
+    const name = file.name.toLowerCase();
     if (type.startsWith('image/')) return <ImageIcon className={className} />;
-    if (type === 'application/pdf') return <PdfIcon className={className} />;
-    if (type.includes('word') || name.endsWith('.docx')) return <WordIcon className={className} />;
+    if (type === 'application/pdf' || name.endsWith('.pdf')) return <PdfIcon className={className} />;
+    if (type.includes('word') || name.endsWith('.docx') || name.endsWith('.doc')) return <WordIcon className={className} />;
     if (type.includes('excel') || type.includes('spreadsheet') || name.endsWith('.xlsx') || name.endsWith('.xls')) return <ExcelIcon className={className} />;
-    if (type.startsWith('text/') || name.endsWith('.txt')) return <TextIcon className={className} />;
+    if (type.startsWith('text/') || name.endsWith('.txt') || name.endsWith('.csv')) return <TextIcon className={className} />;
     return <FileIcon className={className} />;
   };
 
@@ -781,6 +1192,64 @@ function App() {
         {error && <p className="text-red-400 my-4 text-center bg-red-900/20 border border-red-900/50 p-3 rounded-lg max-w-2xl mx-auto text-sm">{error}</p>}
         
         <div>
+            <div className="flex justify-end gap-2 mb-4">
+                <select
+                    value={providerId}
+                    onChange={(e) => setProviderId(e.target.value)}
+                    disabled={isLoading}
+                    title="مزود الاستخراج"
+                    className="text-xs font-medium px-3 py-1.5 rounded-full bg-brand-gray-800 text-brand-gray-400 hover:text-white border-none outline-none cursor-pointer"
+                >
+                    {PROVIDER_OPTIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <select
+                    value={splitMode}
+                    onChange={(e) => setSplitMode(e.target.value as DocumentSplitMode)}
+                    disabled={isLoading}
+                    title="تقسيم المستندات التي تحتوي أكثر من مستفيد أو فاتورة"
+                    className="text-xs font-medium px-3 py-1.5 rounded-full bg-brand-gray-800 text-brand-gray-400 hover:text-white border-none outline-none cursor-pointer"
+                >
+                    <option value="auto">سجل لكل مستفيد</option>
+                    <option value="page">سجل لكل صفحة</option>
+                    <option value="section">سجل لكل قسم (فاتورة/خطاب)</option>
+                </select>
+                <label className="flex items-center gap-1.5 text-xs text-brand-gray-400 px-2 cursor-pointer" title="للملفات النصية (Word, Excel, Text): إذا وجد الاستخراج المحلي كل الحقول الأساسية لا يتم إرسال الملف للنموذج">
+                    <input type="checkbox" checked={localFirstPass} onChange={(e) => setLocalFirstPass(e.target.checked)} disabled={isLoading} className="accent-brand-blue" />
+                    استخراج محلي أولاً
+                </label>
+                <input
+                    value={reviewerName}
+                    onChange={(e) => setReviewerName(e.target.value)}
+                    placeholder="اسم المراجع"
+                    title="يُسجَّل مع كل تعديل يدوي على الحقول"
+                    className="w-28 text-xs px-3 py-1.5 rounded-full bg-brand-gray-800 text-brand-gray-300 placeholder-brand-gray-500 border-none outline-none focus:ring-1 focus:ring-brand-blue-light"
+                />
+                <button onClick={() => setShowHistory(!showHistory)} className={`flex items-center gap-2 text-xs font-medium px-3 py-1.5 rounded-full transition-colors ${showHistory ? 'bg-brand-blue/20 text-brand-blue-light' : 'bg-brand-gray-800 text-brand-gray-400 hover:text-white'}`}>
+                    <HistoryIcon className="w-4 h-4" />
+                    السجل ({history.length})
+                </button>
+                <button onClick={() => setShowBlocklist(!showBlocklist)} className={`flex items-center gap-2 text-xs font-medium px-3 py-1.5 rounded-full transition-colors ${showBlocklist ? 'bg-red-500/20 text-red-300' : 'bg-brand-gray-800 text-brand-gray-400 hover:text-white'}`}>
+                    <ShieldIcon className="w-4 h-4" />
+                    قائمة الحظر ({blocklist.length})
+                </button>
+                <button onClick={() => setShowRestrictedGoods(!showRestrictedGoods)} className={`flex items-center gap-2 text-xs font-medium px-3 py-1.5 rounded-full transition-colors ${showRestrictedGoods ? 'bg-red-500/20 text-red-300' : 'bg-brand-gray-800 text-brand-gray-400 hover:text-white'}`}>
+                    <ShieldIcon className="w-4 h-4" />
+                    البضائع المقيدة ({restrictedGoods.length})
+                </button>
+            </div>
+            {showHistory && (
+                <div className="mb-8">
+                    <HistoryPanel
+                        entries={history}
+                        onOpen={handleOpenHistoryEntry}
+                        onAddToBatch={handleAddHistoryEntryToBatch}
+                        onDelete={handleDeleteHistoryEntry}
+                        onClear={handleClearHistory}
+                    />
+                </div>
+            )}
+            {showBlocklist && <div className="mb-8"><BlocklistManager entries={blocklist} onChange={setBlocklist} /></div>}
+            {showRestrictedGoods && <div className="mb-8"><RestrictedGoodsManager rules={restrictedGoods} onChange={setRestrictedGoods} /></div>}
             <div className="flex justify-center mb-8 bg-brand-gray-800 p-1 rounded-full w-fit mx-auto shadow-md">
                 {['single', 'multi'].map(tab => (
                   <button key={tab} onClick={() => setActiveTab(tab as any)} className={`px-6 py-2 text-md font-medium transition-all rounded-full ${activeTab === tab ? 'bg-brand-blue text-white shadow-lg' : 'text-brand-gray-400 hover:text-white'}`}>
@@ -788,6 +1257,13 @@ function App() {
                   </button>
                 ))}
             </div>
+            <CacheControls
+                settings={cacheSettings}
+                onSettingsChange={setCacheSettings}
+                forceRefresh={forceRefresh}
+                onForceRefreshChange={setForceRefresh}
+                disabled={isLoading}
+            />
             {activeTab === 'single' ? (
                  <div className="w-full max-w-2xl mx-auto">
                     <div className="flex flex-col items-center gap-4">
@@ -816,10 +1292,23 @@ function App() {
 
                         <div className="w-full flex items-stretch gap-2 mt-2">
                             <button onClick={handleProcessSingleFile} disabled={!singleFile || isLoading} className="flex-grow bg-brand-blue hover:bg-brand-blue-light text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-brand-blue/20">{isLoading ? <Spinner/> : 'فحص واستخراج البيانات'}</button>
-                            {(singleResult || error || singleFile) && !isLoading && <button onClick={handleClear} className="flex-shrink-0 bg-brand-gray-700 hover:bg-brand-gray-600 text-white font-bold p-3 rounded-lg transition-colors shadow-lg"><ClearIcon className="w-5 h-5" /></button>}
+                            {isLoading && <button onClick={handleCancelProcessing} className="flex-shrink-0 bg-brand-gray-700 hover:bg-red-500/80 text-white text-sm font-bold px-4 rounded-lg transition-colors shadow-lg" title="إلغاء المعالجة">إلغاء</button>}
+                            {(singleResults.length > 0 || error || singleFile) && !isLoading && <button onClick={handleClear} className="flex-shrink-0 bg-brand-gray-700 hover:bg-brand-gray-600 text-white font-bold p-3 rounded-lg transition-colors shadow-lg"><ClearIcon className="w-5 h-5" /></button>}
                         </div>
                     </div>
-                    {singleResult && <div className="mt-8 animate-slide-in-fade-in"><ResultCard title="البيانات المستخرجة" data={singleResult} /></div>}
+                    {singleResults.map((data, index) => (
+                        <div key={index} className="mt-8 animate-slide-in-fade-in">
+                            <ResultCard
+                                title={singleResults.length > 1 ? `المستفيد ${index + 1} من ${singleResults.length}${data.pages ? ` (${formatPageRange(data.pages)})` : ''}` : 'البيانات المستخرجة'}
+                                data={data}
+                                blocklist={blocklist}
+                                restrictedGoods={restrictedGoods}
+                                outputScript={outputScript}
+                                onOutputScriptChange={setOutputScript}
+                                onFieldChange={(key, value) => handleSingleFieldChange(index, key, value)}
+                            />
+                        </div>
+                    ))}
                 </div>
             ) : (
                  <div className="w-full max-w-6xl mx-auto">
@@ -842,11 +1331,18 @@ function App() {
 
                                             {/* Info */}
                                             <div className="flex-grow min-w-0 flex flex-col justify-center h-full overflow-hidden">
-                                                <p className="text-xs font-bold text-brand-gray-200 truncate w-full" title={pf.file.name}>
-                                                    {pf.file.name}
+                                                <p className="text-xs font-bold text-brand-gray-200 truncate w-full" title={getRecordName(pf)}>
+                                                    {getRecordName(pf)}
                                                 </p>
+                                                {pf.parent && (
+                                                    <p className="text-[10px] text-brand-gray-500 truncate w-full" title={pf.parent.name}>
+                                                        📎 من {pf.parent.name}
+                                                        {!isLoading && <button onClick={() => handleRemoveParentGroup(pf.parent!.id)} className="mr-2 text-brand-gray-500 hover:text-red-400">(إزالة الكل)</button>}
+                                                    </p>
+                                                )}
                                                 <div className="flex items-center gap-2">
                                                     <span className="text-[10px] text-brand-gray-500 font-mono">{(pf.file.size / 1024).toFixed(0)} KB</span>
+                                                    <DocumentTypeBadge type={getDocumentType(pf)} />
                                                     {/* Status Indicator */}
                                                     <div className="mr-auto flex-shrink-0">
                                                         {renderStatusIndicator(pf.status, pf.error)}
@@ -858,6 +1354,16 @@ function App() {
                                                         {pf.error}
                                                     </p>
                                                 )}
+                                                {pf.status === 'done' && pf.data?.enrichmentError && (
+                                                    <p className="text-[10px] text-amber-300 mt-1 truncate w-full" title={pf.data.enrichmentError.message}>
+                                                        تعذر جلب المعلومات الإضافية: {pf.data.enrichmentError.message}
+                                                    </p>
+                                                )}
+                                                {needsRetry(pf) && !isLoading && (
+                                                    <button onClick={() => handleRetryFiles([pf.id])} className="text-[10px] font-bold text-brand-blue-light hover:text-white mt-1">
+                                                        ↻ إعادة المحاولة
+                                                    </button>
+                                                )}
                                             </div>
 
                                             {/* Remove Button (Hover) */}
@@ -876,12 +1382,41 @@ function App() {
                         )}
                         
                         <div className="w-full flex items-stretch gap-2 max-w-2xl mt-4">
-                            <button onClick={handleProcessMultiFile} disabled={processableFiles.length < 2 || isLoading} className="flex-grow bg-brand-blue hover:bg-brand-blue-light text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-brand-blue/20">{isLoading ? <Spinner/> : 'استخراج البيانات'}</button>
+                            <button onClick={handleProcessMultiFile} disabled={processableFiles.length < 2 || isLoading} className="flex-grow bg-brand-blue hover:bg-brand-blue-light text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-brand-blue/20">{isLoading ? (isPaused ? 'متوقف مؤقتاً' : <Spinner/>) : 'استخراج البيانات'}</button>
+                            {isLoading && (
+                                <button onClick={handleTogglePause} className="flex-shrink-0 bg-brand-gray-700 hover:bg-brand-gray-600 text-white text-sm font-bold px-4 rounded-lg transition-colors shadow-lg" title={isPaused ? 'استئناف المعالجة' : 'إيقاف مؤقت: تكتمل الملفات الجارية ولا تبدأ ملفات جديدة'}>
+                                    {isPaused ? '▶ استئناف' : '⏸ إيقاف مؤقت'}
+                                </button>
+                            )}
+                            {isLoading && <button onClick={handleCancelProcessing} className="flex-shrink-0 bg-brand-gray-700 hover:bg-red-500/80 text-white text-sm font-bold px-4 rounded-lg transition-colors shadow-lg" title="إلغاء المعالجة">إلغاء</button>}
+                            {processableFiles.filter(needsRetry).length > 1 && !isLoading && (
+                                <button onClick={() => handleRetryFiles()} className="flex-shrink-0 bg-brand-gray-700 hover:bg-brand-gray-600 text-white text-sm font-bold px-4 rounded-lg transition-colors shadow-lg">
+                                    ↻ إعادة محاولة الفاشلة ({processableFiles.filter(needsRetry).length})
+                                </button>
+                            )}
                             {(processableFiles.length > 0) && !isLoading && <button onClick={handleClear} className="flex-shrink-0 bg-brand-gray-700 hover:bg-brand-gray-600 text-white font-bold p-3 rounded-lg transition-colors shadow-lg"><ClearIcon className="w-5 h-5" /></button>}
                         </div>
+
+                        {throttledConcurrency !== null && isLoading && (
+                            <p className="text-xs text-amber-400">تم إبطاء المعالجة مؤقتاً بسبب تجاوز حد الطلبات ({throttledConcurrency} {throttledConcurrency === 1 ? 'ملف' : 'ملفات'} بالتوازي).</p>
+                        )}
+
+                        {processableFiles.some(f => f.data || f.error) && !isLoading && (
+                            <div className="flex items-center gap-2 text-xs">
+                                <span className="text-brand-gray-400">تصدير النتائج:</span>
+                                {(['csv', 'xlsx', 'json'] as ExportFormat[]).map(format => (
+                                    <button key={format} onClick={() => handleExport(format)} className="bg-brand-gray-800 border border-brand-gray-700 hover:border-brand-blue-light hover:text-white text-brand-gray-300 font-mono font-bold uppercase px-3 py-1.5 rounded-lg transition-colors">
+                                        {format}
+                                    </button>
+                                ))}
+                                {processableFiles.some(f => f.data?.latin && Object.keys(f.data.latin).length > 0) && (
+                                    <ScriptToggle value={outputScript} onChange={setOutputScript} />
+                                )}
+                            </div>
+                        )}
                     </div>
                     {/* Show ComparisonTable if any file has data, even if partially processed */}
-                    {processableFiles.some(f => f.data) && <ComparisonTable files={processableFiles} />}
+                    {processableFiles.some(f => f.data) && <ComparisonTable files={processableFiles} blocklist={blocklist} restrictedGoods={restrictedGoods} amountSettings={amountSettings} onAmountSettingsChange={setAmountSettings} outputScript={outputScript} onFieldChange={handleBatchFieldChange} />}
                 </div>
             )}
         </div>
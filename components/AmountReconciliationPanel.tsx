@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { AmountReconciliation, AmountReconciliationStatus } from '../types';
+import { AmountReconciliationSettings } from '../services/amountReconciliationService';
+import { resolveCurrencyCode } from '../services/currencyData';
+import { formatAmount } from '../services/invoiceService';
+import { ChevronDownIcon, ChevronUpIcon, TrashIcon } from './icons';
+
+const STATUS_STYLES: Record<AmountReconciliationStatus, { label: string; className: string }> = {
+  pass: { label: '✓ المبالغ متطابقة', className: 'bg-green-500/10 text-green-400 ring-green-500/30' },
+  fail: { label: '✗ المبالغ غير متطابقة', className: 'bg-red-500/10 text-red-400 ring-red-500/30' },
+  incomplete: { label: '⚠️ المطابقة غير مكتملة', className: 'bg-amber-500/10 text-amber-400 ring-amber-500/30' },
+};
+
+// لوحة مطابقة المبالغ والعملات بين مستندات الدفعة، مع إعدادات الفرق المسموح وجدول أسعار الصرف
+const AmountReconciliationPanel: React.FC<{
+  result: AmountReconciliation;
+  fileNames: string[];
+  settings: AmountReconciliationSettings;
+  onSettingsChange: (settings: AmountReconciliationSettings) => void;
+}> = ({ result, fileNames, settings, onSettingsChange }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [rateCurrency, setRateCurrency] = useState('');
+  const [rateValue, setRateValue] = useState('');
+
+  const { status, baseCurrency, tolerancePercent, referenceIndex, comparisons, mismatchedIndices, missingRateCurrencies, missingCurrencyIndices } = result;
+  const newRateCode = resolveCurrencyCode(rateCurrency) ?? rateCurrency.trim().toUpperCase();
+  const canAddRate = /^[A-Z]{3}$/.test(newRateCode) && newRateCode !== baseCurrency && Number(rateValue) > 0;
+
+  const handleAddRate = () => {
+    if (!canAddRate) return;
+    onSettingsChange({ ...settings, rates: { ...settings.rates, [newRateCode]: Number(rateValue) } });
+    setRateCurrency('');
+    setRateValue('');
+  };
+
+  const handleRemoveRate = (code: string) => {
+    const { [code]: _removed, ...rates } = settings.rates;
+    onSettingsChange({ ...settings, rates });
+  };
+
+  const inputClass = 'bg-brand-gray-900 border border-brand-gray-700 rounded-md px-2 py-1.5 text-xs text-brand-gray-100 focus:border-brand-blue-light outline-none';
+
+  return (
+    <div className="p-6 border-b border-brand-gray-700 bg-brand-gray-800/50 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-3">
+          <h4 className="text-md font-bold text-brand-gray-200">مطابقة المبالغ</h4>
+          <span className={`text-xs font-bold px-3 py-1.5 rounded-full ring-1 ${STATUS_STYLES[status].className}`}>{STATUS_STYLES[status].label}</span>
+        </div>
+        <button onClick={() => setShowSettings(!showSettings)} className="flex items-center gap-1 text-xs text-brand-gray-400 hover:text-white transition-colors">
+          الفرق المسموح {tolerancePercent}% · العملة الأساسية {baseCurrency}
+          {showSettings ? <ChevronUpIcon className="w-4 h-4" /> : <ChevronDownIcon className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {comparisons.length < 2 && <p className="text-xs text-brand-gray-500">يلزم مستندان على الأقل يحتويان مبلغاً لإجراء المطابقة.</p>}
+      {missingRateCurrencies.length > 0 && (
+        <p className="text-xs text-amber-400">لا يوجد سعر صرف إلى {baseCurrency} للعملات: {missingRateCurrencies.join('، ')}. أضفها في جدول الأسعار لإدخال مستنداتها في المطابقة.</p>
+      )}
+      {missingCurrencyIndices.length > 0 && (
+        <p className="text-xs text-amber-400">لم تُحدد العملة في المستندات: {missingCurrencyIndices.map(i => `#${i + 1}`).join('، ')}. أدخل العملة يدوياً لإدخالها في المطابقة.</p>
+      )}
+
+      {comparisons.length > 0 && (
+        <div className="divide-y divide-brand-gray-700/50">
+          {comparisons.map(({ index, amount, currency, convertedAmount, deviationPercent }) => {
+            const isMismatched = mismatchedIndices.includes(index);
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-3 py-2 text-xs">
+                <span className="text-brand-blue-light font-bold opacity-50">#{index + 1}</span>
+                <span className="truncate text-brand-gray-300 flex-grow" title={fileNames[index]}>{fileNames[index]}</span>
+                {index === referenceIndex && <span className="bg-brand-blue/20 text-brand-blue-light px-2 py-0.5 rounded">المرجع</span>}
+                <span className="font-mono text-brand-gray-100">{formatAmount(amount, currency)} {currency ?? ''}</span>
+                {convertedAmount !== null && currency && currency !== baseCurrency && (
+                  <span className="font-mono text-brand-gray-500">≈ {formatAmount(convertedAmount, baseCurrency)} {baseCurrency}</span>
+                )}
+                {convertedAmount === null
+                  ? <span className="text-amber-400">{currency ? 'لا يوجد سعر صرف' : 'العملة غير محددة'}</span>
+                  : index !== referenceIndex && deviationPercent !== null && (
+                    <span className={`font-mono font-bold ${isMismatched ? 'text-red-400' : 'text-green-400'}`}>{isMismatched ? '✗' : '✓'} {deviationPercent.toFixed(2)}%</span>
+                  )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showSettings && (
+        <div className="bg-brand-gray-900/50 border border-brand-gray-700 rounded-lg p-4 space-y-3 animate-slide-in-fade-in">
+          <div className="flex flex-wrap gap-4 text-xs text-brand-gray-400">
+            <label className="flex items-center gap-2">
+              الفرق المسموح (%):
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={settings.tolerancePercent}
+                onChange={(e) => onSettingsChange({ ...settings, tolerancePercent: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              العملة الأساسية:
+              <input
+                value={settings.baseCurrency}
+                onChange={(e) => onSettingsChange({ ...settings, baseCurrency: e.target.value.trim().toUpperCase().slice(0, 3) })}
+                className={`${inputClass} w-20 font-mono`}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-brand-gray-500">أسعار الصرف تُدخل يدوياً وتحفظ محلياً: قيمة وحدة واحدة من العملة بالعملة الأساسية ({baseCurrency}).</p>
+          <div className="flex flex-wrap gap-2">
+            <input value={rateCurrency} onChange={(e) => setRateCurrency(e.target.value)} placeholder="العملة، مثل CNY" className={`${inputClass} w-32`} />
+            <input type="number" min={0} step="any" value={rateValue} onChange={(e) => setRateValue(e.target.value)} placeholder={`السعر بـ ${baseCurrency}`} className={`${inputClass} w-32`} />
+            <button onClick={handleAddRate} disabled={!canAddRate} className="bg-brand-blue hover:bg-brand-blue-light text-white text-xs font-bold rounded-md px-4 py-1.5 transition-colors disabled:opacity-50">إضافة</button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(settings.rates).map(([code, rate]) => (
+              <span key={code} className="flex items-center gap-1 text-xs font-mono bg-brand-gray-700 text-brand-gray-200 pl-1 pr-2 py-0.5 rounded-full">
+                1 {code} = {rate} {baseCurrency}
+                <button onClick={() => handleRemoveRate(code)} className="text-brand-gray-500 hover:text-red-400 p-0.5" title="حذف السعر">
+                  <TrashIcon className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AmountReconciliationPanel;
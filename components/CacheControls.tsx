@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { CacheSettings, clearCache } from '../services/cacheService';
+
+const TTL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: 'معطلة' },
+  { hours: 1, label: 'ساعة' },
+  { hours: 24, label: 'يوم' },
+  { hours: 24 * 7, label: 'أسبوع' },
+  { hours: 24 * 30, label: 'شهر' },
+];
+
+// إعدادات الذاكرة المؤقتة لنتائج النموذج: مدة الصلاحية، التحديث الإجباري، والمسح
+const CacheControls: React.FC<{
+  settings: CacheSettings;
+  onSettingsChange: (settings: CacheSettings) => void;
+  forceRefresh: boolean;
+  onForceRefreshChange: (value: boolean) => void;
+  disabled: boolean;
+}> = ({ settings, onSettingsChange, forceRefresh, onForceRefreshChange, disabled }) => {
+  const [cleared, setCleared] = useState(false);
+
+  const handleClear = () => {
+    clearCache();
+    setCleared(true);
+    setTimeout(() => setCleared(false), 2000);
+  };
+
+  return (
+    <div className="-mt-4 mb-8 flex flex-wrap justify-center items-center gap-4 text-xs text-brand-gray-400">
+      <label className="flex items-center gap-2">
+        صلاحية النتائج المحفوظة:
+        <select
+          value={settings.ttlHours}
+          onChange={(e) => onSettingsChange({ ...settings, ttlHours: Number(e.target.value) })}
+          disabled={disabled}
+          className="bg-brand-gray-800 border border-brand-gray-700 rounded-md px-2 py-1 text-brand-gray-200 outline-none focus:border-brand-blue-light"
+        >
+          {TTL_OPTIONS.map(o => <option key={o.hours} value={o.hours}>{o.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input type="checkbox" checked={forceRefresh} onChange={(e) => onForceRefreshChange(e.target.checked)} disabled={disabled} className="accent-brand-blue" />
+        تحديث إجباري (تجاهل النتائج المحفوظة)
+      </label>
+      <button onClick={handleClear} disabled={disabled} className={`transition-colors ${cleared ? 'text-green-400' : 'hover:text-white'} disabled:opacity-50`}>
+        {cleared ? '✓ تم المسح' : 'مسح النتائج المحفوظة'}
+      </button>
+    </div>
+  );
+};
+
+export default CacheControls;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { CompanyReport, ReportClaim, SwiftMatchStatus } from '../types';
+import { COMPANY_REPORT_BANK_LABELS, COMPANY_REPORT_COMPANY_LABELS, SWIFT_MATCH_LABELS } from '../constants';
+
+const SWIFT_MATCH_STYLES: Record<SwiftMatchStatus, string> = {
+  match: 'bg-green-500/10 text-green-400 ring-green-500/30',
+  mismatch: 'bg-red-500/10 text-red-400 ring-red-500/30',
+  unknown: 'bg-amber-500/10 text-amber-400 ring-amber-500/30',
+};
+
+// أرقام المصادر بجانب كل معلومة، بنفس ترقيم قائمة المصادر أسفل التقرير
+const ClaimSources: React.FC<{ claim: ReportClaim; sources: { uri: string; title: string }[] }> = ({ claim, sources }) => (
+  <>
+    {claim.sourceIndices.filter(index => sources[index]).map(index => (
+      <a
+        key={index}
+        href={sources[index].uri}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={sources[index].title}
+        className="inline-block align-super text-[10px] font-mono text-brand-blue-light hover:text-white mx-0.5"
+      >
+        [{index + 1}]
+      </a>
+    ))}
+  </>
+);
+
+const ReportRow: React.FC<{ label: string; claim: ReportClaim; sources: { uri: string; title: string }[] }> = ({ label, claim, sources }) => (
+  <div className="flex gap-3 text-sm">
+    <span className="text-brand-gray-500 w-28 shrink-0">{label}</span>
+    <span className="text-brand-gray-200 leading-relaxed break-words min-w-0">
+      {claim.text}
+      <ClaimSources claim={claim} sources={sources} />
+    </span>
+  </div>
+);
+
+const ReportSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-2">
+    <h5 className="text-xs font-bold text-brand-gray-400">{title}</h5>
+    {children}
+  </div>
+);
+
+// تقرير العناية الواجبة مقسماً إلى الشركة والبنك والبضاعة ومؤشرات الخطر، مع مصادر كل معلومة
+const CompanyReportView: React.FC<{
+  report: CompanyReport;
+  sources: { uri: string; title: string }[];
+}> = ({ report, sources }) => {
+  const { company, bank, goods, redFlags } = report;
+  const companyKeys = (Object.keys(COMPANY_REPORT_COMPANY_LABELS) as (keyof typeof COMPANY_REPORT_COMPANY_LABELS)[]).filter(key => company[key]);
+  const bankKeys = (Object.keys(COMPANY_REPORT_BANK_LABELS) as (keyof typeof COMPANY_REPORT_BANK_LABELS)[]).filter(key => bank[key]);
+
+  return (
+    <div className="space-y-4">
+      {redFlags.length > 0 && (
+        <ReportSection title="⚠️ مؤشرات الخطر">
+          <ul className="space-y-1 bg-red-500/10 ring-1 ring-red-500/30 rounded-lg p-3">
+            {redFlags.map((flag, i) => (
+              <li key={i} className="text-sm text-red-300">
+                • {flag.text}
+                <ClaimSources claim={flag} sources={sources} />
+              </li>
+            ))}
+          </ul>
+        </ReportSection>
+      )}
+
+      <ReportSection title="الشركة">
+        {companyKeys.length
+          ? companyKeys.map(key => <ReportRow key={key} label={COMPANY_REPORT_COMPANY_LABELS[key].label} claim={company[key]!} sources={sources} />)
+          : <p className="text-xs text-brand-gray-600">لم يتم العثور على معلومات عن الشركة.</p>}
+      </ReportSection>
+
+      <ReportSection title="البنك">
+        {bankKeys.map(key => <ReportRow key={key} label={COMPANY_REPORT_BANK_LABELS[key].label} claim={bank[key]!} sources={sources} />)}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`text-xs font-bold px-3 py-1 rounded-full ring-1 ${SWIFT_MATCH_STYLES[bank.swiftMatch]}`}>{SWIFT_MATCH_LABELS[bank.swiftMatch]}</span>
+          {bank.swiftNote && (
+            <span className="text-xs text-brand-gray-400">
+              {bank.swiftNote.text}
+              <ClaimSources claim={bank.swiftNote} sources={sources} />
+            </span>
+          )}
+        </div>
+      </ReportSection>
+
+      {goods.summary && (
+        <ReportSection title="البضاعة">
+          <ReportRow label="البضاعة المذكورة في الفاتورة" claim={goods.summary} sources={sources} />
+        </ReportSection>
+      )}
+    </div>
+  );
+};
+
+export default CompanyReportView;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { FieldEvidence } from '../types';
+
+// أقل من هذه الدرجة يُعلَّم الحقل للمراجعة اليدوية
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const isLowConfidence = (evidence?: FieldEvidence) => !!evidence && evidence.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+// شارة نسبة الثقة تحت قيمة الحقل، وعند المرور عليها يظهر النص المصدر الذي أُخذت منه القيمة
+const ConfidenceIndicator: React.FC<{ evidence?: FieldEvidence }> = ({ evidence }) => {
+  if (!evidence) return null;
+  const isLow = isLowConfidence(evidence);
+  const percent = Math.round(evidence.confidence * 100);
+
+  return (
+    <span className="relative block w-fit mt-1 font-sans group/evidence">
+      <span className={`block text-[10px] font-bold px-1 rounded cursor-help ${isLow ? 'text-amber-400 bg-amber-500/10' : 'text-brand-gray-400 bg-brand-gray-700/40'}`}>
+        {isLow ? `⚠️ ثقة منخفضة ${percent}%` : `ثقة ${percent}%`}
+      </span>
+      {evidence.snippet && (
+        <span className="hidden group-hover/evidence:block absolute z-20 top-full right-0 mt-1 w-64 p-2 rounded-md border border-brand-gray-600 bg-brand-gray-900 shadow-xl text-[11px] font-normal text-brand-gray-200 text-right whitespace-pre-wrap break-words">
+          <span className="block text-brand-gray-500 mb-1">
+            المصدر في المستند{evidence.page ? ` (صفحة ${evidence.page})` : ''}:
+          </span>
+          <span dir="auto" className="block font-mono">«{evidence.snippet}»</span>
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default ConfidenceIndicator;
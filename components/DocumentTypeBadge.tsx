@@ -0,0 +1,26 @@
+import React from 'react';
+import { DocumentType } from '../types';
+import { DOCUMENT_TYPE_LABELS } from '../constants';
+
+const TYPE_STYLES: Record<DocumentType, string> = {
+  commercialInvoice: 'text-sky-300 bg-sky-500/10 ring-sky-500/30',
+  proformaInvoice: 'text-indigo-300 bg-indigo-500/10 ring-indigo-500/30',
+  billOfLading: 'text-teal-300 bg-teal-500/10 ring-teal-500/30',
+  packingList: 'text-lime-300 bg-lime-500/10 ring-lime-500/30',
+  bankLetter: 'text-violet-300 bg-violet-500/10 ring-violet-500/30',
+  other: 'text-brand-gray-400 bg-brand-gray-700/40 ring-brand-gray-600/40',
+};
+
+// شارة نوع المستند كما صنّفه التطبيق قبل الاستخراج
+const DocumentTypeBadge: React.FC<{ type?: DocumentType }> = ({ type }) => {
+  if (!type) return null;
+  const { label, labelEn } = DOCUMENT_TYPE_LABELS[type];
+
+  return (
+    <span className={`inline-block text-[10px] font-bold px-1.5 py-0.5 rounded ring-1 whitespace-nowrap ${TYPE_STYLES[type]}`} title={labelEn}>
+      {label}
+    </span>
+  );
+};
+
+export default DocumentTypeBadge;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { FieldEdit } from '../types';
+import { formatFieldEdit } from '../services/editService';
+import { CheckIcon, CrossIcon, PencilIcon } from './icons';
+
+// قيمة حقل قابلة للتعديل في مكانها: Enter للحفظ و Escape للإلغاء
+const EditableValue: React.FC<{
+  value: string;
+  edit?: FieldEdit;
+  onSave?: (value: string) => void;
+  children: React.ReactNode;
+}> = ({ value, edit, onSave, children }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+
+  if (isEditing && onSave) {
+    const save = () => {
+      if (draft.trim() !== value) onSave(draft);
+      setIsEditing(false);
+    };
+    return (
+      <span className="flex items-center gap-1 w-full">
+        <input
+          autoFocus
+          dir="auto"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          className="flex-grow min-w-0 bg-brand-gray-900 border border-brand-blue-light rounded px-2 py-1 text-sm text-white font-mono outline-none"
+        />
+        <button onClick={save} title="حفظ" className="p-1 rounded hover:bg-brand-gray-700"><CheckIcon className="w-4 h-4 text-green-400" /></button>
+        <button onClick={() => setIsEditing(false)} title="إلغاء" className="p-1 rounded hover:bg-brand-gray-700"><CrossIcon className="w-4 h-4 text-brand-gray-400" /></button>
+      </span>
+    );
+  }
+
+  return (
+    <>
+      <span className="inline-flex items-start gap-1">
+        {children}
+        {onSave && (
+          <button
+            onClick={() => { setDraft(value); setIsEditing(true); }}
+            title="تعديل القيمة"
+            className="shrink-0 p-0.5 rounded text-brand-gray-500 hover:text-white hover:bg-brand-gray-700 transition-colors"
+          >
+            <PencilIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </span>
+      {edit && (
+        <span className="block text-[10px] font-bold mt-1 px-1 rounded w-fit font-sans text-brand-blue-light bg-brand-blue/10 cursor-help" title={formatFieldEdit(edit)}>
+          ✎ معدّل يدوياً
+        </span>
+      )}
+    </>
+  );
+};
+
+export default EditableValue;
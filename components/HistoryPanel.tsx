@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { HistoryEntry } from '../types';
+import { filterHistory } from '../services/historyService';
+import { TrashIcon } from './icons';
+
+const HistoryPanel: React.FC<{
+  entries: HistoryEntry[];
+  onOpen: (entry: HistoryEntry) => void;
+  onAddToBatch: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}> = ({ entries, onOpen, onAddToBatch, onDelete, onClear }) => {
+  const [query, setQuery] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filtered = filterHistory(entries, { query, from, to });
+  const inputClass = 'bg-brand-gray-900 border border-brand-gray-700 rounded-md px-2 py-1.5 text-xs text-brand-gray-100 focus:border-brand-blue-light outline-none';
+
+  return (
+    <div className="w-full bg-brand-gray-800 border border-brand-gray-700 rounded-xl p-4 space-y-4 animate-slide-in-fade-in">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="text-md font-bold text-brand-gray-200">سجل المستندات المعالجة</h4>
+          <p className="text-xs text-brand-gray-500">{entries.length} نتيجة محفوظة محلياً على هذا الجهاز</p>
+        </div>
+        {entries.length > 0 && (
+          <button onClick={() => window.confirm('هل تريد حذف السجل بالكامل؟') && onClear()} className="text-xs text-brand-gray-400 hover:text-red-400 transition-colors">
+            مسح السجل
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="بحث بالمستفيد أو الحساب أو السويفت" className={inputClass} />
+        <label className="flex items-center gap-2 text-xs text-brand-gray-400">
+          من
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={`${inputClass} flex-grow`} />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-brand-gray-400">
+          إلى
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={`${inputClass} flex-grow`} />
+        </label>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto divide-y divide-brand-gray-700/50">
+        {filtered.length === 0 && <p className="text-xs text-brand-gray-500 text-center py-3">لا توجد نتائج مطابقة</p>}
+        {filtered.map(entry => (
+          <div key={entry.id} className="flex items-center gap-3 py-2 text-xs">
+            <div className="flex-grow min-w-0">
+              <p className="font-bold text-brand-gray-200 truncate" title={entry.data.beneficiaryName}>
+                {entry.data.extractedBy === 'local' && <span className="text-[10px] text-red-400 bg-red-500/10 px-1.5 py-0.5 rounded ml-1" title="بيانات تجريبية ثابتة وليست مستخرجة من المستند">تجريبي</span>}
+                {entry.data.beneficiaryName || '—'}
+              </p>
+              <p className="text-brand-gray-500 truncate">
+                <span className="font-mono">{entry.data.accountNumber}</span>
+                {entry.data.swiftCode && <span className="font-mono"> · {entry.data.swiftCode}</span>}
+                <span> · {entry.fileName}</span>
+              </p>
+            </div>
+            <span className="flex-shrink-0 text-brand-gray-500 font-mono">{new Date(entry.timestamp).toLocaleString('ar-EG-u-nu-latn', { dateStyle: 'short', timeStyle: 'short' })}</span>
+            <button onClick={() => onOpen(entry)} className="flex-shrink-0 bg-brand-gray-700 hover:bg-brand-blue text-brand-gray-200 px-2 py-1 rounded transition-colors">فتح</button>
+            <button onClick={() => onAddToBatch(entry)} className="flex-shrink-0 bg-brand-gray-700 hover:bg-brand-blue text-brand-gray-200 px-2 py-1 rounded transition-colors">إضافة للمقارنة</button>
+            <button onClick={() => onDelete(entry.id)} className="flex-shrink-0 text-brand-gray-500 hover:text-red-400 p-1" title="حذف من السجل">
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { EnrichedData, PaymentDetails, PaymentMessageFormat } from '../types';
+import { createEndToEndId, generateMt103, generatePain001 } from '../services/paymentMessageService';
+import { CheckIcon, CopyIcon } from './icons';
+
+const FORMAT_LABELS: Record<PaymentMessageFormat, string> = {
+  pain001: 'ISO 20022 pain.001',
+  mt103: 'SWIFT MT103',
+};
+
+const PaymentMessageGenerator: React.FC<{ data: EnrichedData }> = ({ data }) => {
+  const [format, setFormat] = useState<PaymentMessageFormat>('mt103');
+  const [copied, setCopied] = useState(false);
+  const [endToEndId] = useState(createEndToEndId);
+  // المبلغ والعملة من الفاتورة إن وُجدا، ويمكن تعديلهما قبل إنشاء الرسالة
+  const [details, setDetails] = useState<PaymentDetails>(() => ({
+    amount: data.amount !== undefined ? String(data.amount) : '',
+    currency: data.currency || 'USD',
+    valueDate: new Date().toISOString().slice(0, 10),
+    orderingName: '',
+    orderingAccount: '',
+    orderingAddress: '',
+    remittanceInfo: data.invoiceNumber ? `INV ${data.invoiceNumber}` : '',
+  }));
+
+  // تعديل المبلغ أو العملة في السجل بعد فتح النموذج ينعكس على الرسالة
+  useEffect(() => {
+    setDetails(prev => ({
+      ...prev,
+      amount: data.amount !== undefined ? String(data.amount) : '',
+      currency: data.currency || prev.currency,
+    }));
+  }, [data.amount, data.currency]);
+
+  const message = format === 'pain001' ? generatePain001(data, details, endToEndId) : generateMt103(data, details);
+
+  const updateDetail = (key: keyof PaymentDetails) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = key === 'currency' ? e.target.value.toUpperCase() : e.target.value;
+    setDetails(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(message.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const inputClass = 'bg-brand-gray-900 border border-brand-gray-700 rounded-md px-2 py-1.5 text-xs text-brand-gray-100 focus:border-brand-blue-light outline-none w-full';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <input value={details.amount} onChange={updateDetail('amount')} placeholder="المبلغ" inputMode="decimal" className={`${inputClass} font-mono`} />
+        <input value={details.currency} onChange={updateDetail('currency')} placeholder="العملة (USD)" maxLength={3} className={`${inputClass} font-mono`} />
+        <input value={details.valueDate} onChange={updateDetail('valueDate')} type="date" className={inputClass} />
+        <input value={details.orderingName} onChange={updateDetail('orderingName')} placeholder="اسم الآمر بالتحويل" className={inputClass} />
+        <input value={details.orderingAccount} onChange={updateDetail('orderingAccount')} placeholder="حساب الآمر" className={`${inputClass} font-mono`} />
+        <input value={details.orderingAddress} onChange={updateDetail('orderingAddress')} placeholder="عنوان الآمر" className={inputClass} />
+        <input value={details.remittanceInfo} onChange={updateDetail('remittanceInfo')} placeholder="بيانات الدفع (رقم الفاتورة...)" className={`${inputClass} col-span-2 sm:col-span-3`} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex bg-brand-gray-900 p-0.5 rounded-full">
+          {(Object.keys(FORMAT_LABELS) as PaymentMessageFormat[]).map(f => (
+            <button key={f} onClick={() => setFormat(f)} className={`px-3 py-1 text-xs rounded-full transition-colors ${format === f ? 'bg-brand-blue text-white' : 'text-brand-gray-400 hover:text-white'}`}>
+              {FORMAT_LABELS[f]}
+            </button>
+          ))}
+        </div>
+        <button onClick={handleCopy} className={`p-1.5 rounded-md transition-all ${copied ? 'bg-green-500/20 text-green-400' : 'bg-brand-gray-700 text-brand-gray-400 hover:bg-brand-blue hover:text-white'}`} title="نسخ الرسالة">
+          {copied ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <pre dir="ltr" className="bg-brand-gray-900 border border-brand-gray-700 rounded-lg p-3 text-xs font-mono text-blue-200 overflow-x-auto text-left">{message.content}</pre>
+
+      {message.issues.length > 0 ? (
+        <ul className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 space-y-1">
+          {message.issues.map((issue, i) => <li key={i} className="text-xs text-amber-300">⚠️ {issue}</li>)}
+        </ul>
+      ) : (
+        <p className="text-xs text-green-400">✓ الرسالة مطابقة لقواعد الأحرف والأطوال في صيغة {FORMAT_LABELS[format]}</p>
+      )}
+    </div>
+  );
+};
+
+export default PaymentMessageGenerator;
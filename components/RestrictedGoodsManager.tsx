@@ -0,0 +1,82 @@
+import React, { useRef, useState } from 'react';
+import { RestrictedGoodsRule, RestrictedGoodsRuleType } from '../types';
+import { RESTRICTED_GOODS_RULE_LABELS, createRestrictedGoodsRule, mergeRestrictedGoods, parseRestrictedGoodsFile } from '../services/restrictedGoodsService';
+import { TrashIcon, UploadIcon } from './icons';
+
+const RestrictedGoodsManager: React.FC<{ rules: RestrictedGoodsRule[]; onChange: (rules: RestrictedGoodsRule[]) => void }> = ({ rules, onChange }) => {
+  const [type, setType] = useState<RestrictedGoodsRuleType>('keyword');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [source, setSource] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRestrictedGoodsFile(await file.text(), file.name);
+      const merged = mergeRestrictedGoods(rules, imported);
+      onChange(merged);
+      setMessage({ text: `تم استيراد ${merged.length - rules.length} قاعدة جديدة من ${file.name}`, isError: false });
+    } catch (err: any) {
+      setMessage({ text: err.message || 'فشل في استيراد الملف.', isError: true });
+    }
+  };
+
+  const handleAdd = () => {
+    if (!value.trim()) return;
+    onChange(mergeRestrictedGoods(rules, [createRestrictedGoodsRule(type, value, reason, source || 'إدخال يدوي')]));
+    setValue('');
+    setReason('');
+    setMessage(null);
+  };
+
+  const inputClass = 'bg-brand-gray-900 border border-brand-gray-700 rounded-md px-2 py-1.5 text-xs text-brand-gray-100 focus:border-brand-blue-light outline-none';
+
+  return (
+    <div className="w-full bg-brand-gray-800 border border-brand-gray-700 rounded-xl p-4 space-y-4 animate-slide-in-fade-in">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="text-md font-bold text-brand-gray-200">البضائع المقيدة ومزدوجة الاستخدام</h4>
+          <p className="text-xs text-brand-gray-500">تحفظ محلياً على هذا الجهاز. الاستيراد يدعم CSV و JSON بالأعمدة: type (keyword أو hsCode), value, reason, source</p>
+        </div>
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-xs bg-brand-gray-700 hover:bg-brand-blue text-brand-gray-200 px-3 py-2 rounded-lg transition-colors">
+          <UploadIcon className="w-4 h-4" />
+          استيراد
+        </button>
+        <input ref={fileInputRef} type="file" className="hidden" accept=".csv,.json" onChange={handleImport} />
+      </div>
+
+      {message && <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value as RestrictedGoodsRuleType)} className={inputClass}>
+          {(Object.keys(RESTRICTED_GOODS_RULE_LABELS) as RestrictedGoodsRuleType[]).map(t => <option key={t} value={t}>{RESTRICTED_GOODS_RULE_LABELS[t]}</option>)}
+        </select>
+        <input value={value} onChange={(e) => setValue(e.target.value)} placeholder={type === 'hsCode' ? 'الفصل أو البند، مثل 93 أو 8806' : 'الكلمة أو العبارة'} className={inputClass} />
+        <input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="السبب" className={inputClass} />
+        <input value={source} onChange={(e) => setSource(e.target.value)} placeholder="المصدر" className={inputClass} />
+        <button onClick={handleAdd} disabled={!value.trim()} className="bg-brand-blue hover:bg-brand-blue-light text-white text-xs font-bold rounded-md py-1.5 transition-colors disabled:opacity-50">إضافة</button>
+      </div>
+
+      <div className="max-h-60 overflow-y-auto divide-y divide-brand-gray-700/50">
+        {rules.length === 0 && <p className="text-xs text-brand-gray-500 text-center py-3">القائمة فارغة</p>}
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center gap-3 py-2 text-xs">
+            <span className="flex-shrink-0 bg-red-500/10 text-red-400 px-2 py-0.5 rounded">{RESTRICTED_GOODS_RULE_LABELS[rule.type]}</span>
+            <span className="font-mono text-brand-gray-100 truncate">{rule.value}</span>
+            <span className="text-brand-gray-400 truncate flex-grow" title={rule.reason}>{rule.reason}</span>
+            <span className="text-brand-gray-500 truncate">{rule.source}</span>
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-brand-gray-500 hover:text-red-400 p-1" title="حذف القاعدة">
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RestrictedGoodsManager;
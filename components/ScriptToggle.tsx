@@ -0,0 +1,24 @@
+import React from 'react';
+import { OutputScript } from '../types';
+
+const SCRIPT_LABELS: Record<OutputScript, string> = {
+  original: 'الكتابة الأصلية',
+  latin: 'لاتيني',
+};
+
+// اختيار الكتابة المستخدمة عند النسخ والتصدير للحقول التي لها صيغة لاتينية
+const ScriptToggle: React.FC<{ value: OutputScript; onChange: (script: OutputScript) => void }> = ({ value, onChange }) => (
+  <div className="flex items-center bg-brand-gray-900 rounded-full p-0.5 text-[10px] font-bold" title="الكتابة المستخدمة عند النسخ والتصدير">
+    {(Object.keys(SCRIPT_LABELS) as OutputScript[]).map(script => (
+      <button
+        key={script}
+        onClick={(e) => { e.stopPropagation(); onChange(script); }}
+        className={`px-2 py-0.5 rounded-full transition-colors ${value === script ? 'bg-brand-blue text-white' : 'text-brand-gray-400 hover:text-white'}`}
+      >
+        {SCRIPT_LABELS[script]}
+      </button>
+    ))}
+  </div>
+);
+
+export default ScriptToggle;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { FieldValidation } from '../types';
+
+const STATUS_STYLES: Record<FieldValidation['status'], { className: string; label: string }> = {
+  valid: { className: 'text-green-400 bg-green-500/10', label: '✓ صالح' },
+  invalid: { className: 'text-red-400 bg-red-500/10', label: '⚠️ غير صالح' },
+  unverifiable: { className: 'text-brand-gray-400 bg-brand-gray-700/40', label: 'غير قابل للتحقق' },
+};
+
+// ملاحظة صغيرة تحت قيمة الحقل توضح نتيجة التحقق وسببها
+const ValidationNote: React.FC<{ validation?: FieldValidation; compact?: boolean }> = ({ validation, compact = false }) => {
+  if (!validation) return null;
+  const { className, label } = STATUS_STYLES[validation.status];
+
+  return (
+    <span className={`block text-[10px] font-bold mt-1 px-1 rounded w-fit font-sans ${className}`} title={validation.message}>
+      {label}
+      {!compact && validation.status !== 'valid' && <span className="block font-normal leading-relaxed">{validation.message}</span>}
+      {validation.warnings?.map((warning, i) => (
+        <span key={i} className="block font-normal leading-relaxed text-amber-400" title={warning}>{compact ? '⚠️' : `⚠️ ${warning}`}</span>
+      ))}
+    </span>
+  );
+};
+
+export default ValidationNote;
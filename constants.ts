@@ -0,0 +1,81 @@
+import { AddressParts, CompanyReportBankKey, CompanyReportCompanyKey, DocumentDetailKey, DocumentType, ExtractedFieldKey, SwiftMatchStatus } from './types';
+
+export interface FieldDefinition {
+  key: ExtractedFieldKey;
+  label: string;
+  labelEn: string;
+  isMono?: boolean;
+}
+
+// ترتيب الحقول وعناوينها كما تظهر في البطاقة والجدول وملفات التصدير
+export const EXTRACTED_FIELDS: FieldDefinition[] = [
+  { key: 'beneficiaryName', label: 'اسم المستفيد', labelEn: 'Beneficiary Name' },
+  { key: 'accountNumber', label: 'رقم الحساب', labelEn: 'Account Number', isMono: true },
+  { key: 'swiftCode', label: 'سويفت البنك', labelEn: 'SWIFT Code', isMono: true },
+  { key: 'bankName', label: 'أسم البنك', labelEn: 'Bank Name' },
+  { key: 'country', label: 'الدولة', labelEn: 'Country' },
+  { key: 'province', label: 'المقاطعة أو الولاية', labelEn: 'Province / State' },
+  { key: 'city', label: 'المدينة', labelEn: 'City' },
+  { key: 'address', label: 'العنوان', labelEn: 'Address' },
+  { key: 'invoiceNumber', label: 'رقم الفاتورة', labelEn: 'Invoice Number', isMono: true },
+  { key: 'invoiceDate', label: 'تاريخ الفاتورة', labelEn: 'Invoice Date', isMono: true },
+  { key: 'buyerName', label: 'المشتري / المرسل إليه', labelEn: 'Buyer / Consignee' },
+  { key: 'amount', label: 'المبلغ', labelEn: 'Amount', isMono: true },
+  { key: 'currency', label: 'العملة', labelEn: 'Currency', isMono: true },
+  { key: 'paymentTerms', label: 'شروط الدفع', labelEn: 'Payment Terms' },
+  { key: 'incoterms', label: 'شروط التسليم (Incoterms)', labelEn: 'Incoterms' },
+];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, { label: string; labelEn: string }> = {
+  commercialInvoice: { label: 'فاتورة تجارية', labelEn: 'Commercial Invoice' },
+  proformaInvoice: { label: 'فاتورة مبدئية', labelEn: 'Proforma Invoice' },
+  billOfLading: { label: 'بوليصة شحن', labelEn: 'Bill of Lading' },
+  packingList: { label: 'قائمة تعبئة', labelEn: 'Packing List' },
+  bankLetter: { label: 'خطاب بنكي', labelEn: 'Bank Letter' },
+  other: { label: 'مستند آخر', labelEn: 'Other' },
+};
+
+export const DOCUMENT_DETAIL_FIELDS: Record<DocumentDetailKey, { label: string; labelEn: string; isMono?: boolean }> = {
+  consignee: { label: 'المرسل إليه', labelEn: 'Consignee' },
+  notifyParty: { label: 'جهة الإخطار', labelEn: 'Notify Party' },
+  billOfLadingNumber: { label: 'رقم البوليصة', labelEn: 'B/L Number', isMono: true },
+  vesselName: { label: 'السفينة / الرحلة', labelEn: 'Vessel / Voyage' },
+  portOfLoading: { label: 'ميناء الشحن', labelEn: 'Port of Loading' },
+  portOfDischarge: { label: 'ميناء التفريغ', labelEn: 'Port of Discharge' },
+  packageCount: { label: 'عدد الطرود', labelEn: 'Packages' },
+  grossWeight: { label: 'الوزن القائم', labelEn: 'Gross Weight' },
+  netWeight: { label: 'الوزن الصافي', labelEn: 'Net Weight' },
+  letterheadBank: { label: 'البنك في ترويسة الخطاب', labelEn: 'Letterhead Bank' },
+  letterReference: { label: 'مرجع الخطاب', labelEn: 'Letter Reference', isMono: true },
+  letterDate: { label: 'تاريخ الخطاب', labelEn: 'Letter Date' },
+  signatory: { label: 'الموقّع', labelEn: 'Signatory' },
+  validUntil: { label: 'صالحة حتى', labelEn: 'Valid Until' },
+};
+
+// أجزاء العنوان بعد التحليل، بالترتيب الذي تظهر به تحت حقل العنوان
+export const ADDRESS_PART_LABELS: Record<keyof AddressParts, { label: string; labelEn: string }> = {
+  street: { label: 'الشارع', labelEn: 'Street' },
+  building: { label: 'المبنى', labelEn: 'Building' },
+  postalCode: { label: 'الرمز البريدي', labelEn: 'Postal Code' },
+  district: { label: 'الحي', labelEn: 'District' },
+};
+
+// عناوين أقسام تقرير الشركة بالترتيب الذي تظهر به في البطاقة والنص المنسوخ
+export const COMPANY_REPORT_COMPANY_LABELS: Record<CompanyReportCompanyKey, { label: string; labelEn: string }> = {
+  activity: { label: 'النشاط', labelEn: 'Activity' },
+  headquarters: { label: 'المقر الرئيسي', labelEn: 'Headquarters' },
+  foundedYear: { label: 'سنة التأسيس', labelEn: 'Founded' },
+  website: { label: 'الموقع الإلكتروني', labelEn: 'Website' },
+  registration: { label: 'بيانات التسجيل', labelEn: 'Registration' },
+};
+
+export const COMPANY_REPORT_BANK_LABELS: Record<CompanyReportBankKey, { label: string; labelEn: string }> = {
+  headquarters: { label: 'المقر الرئيسي', labelEn: 'Headquarters' },
+  branchLocation: { label: 'موقع الفرع', labelEn: 'Branch Location' },
+};
+
+export const SWIFT_MATCH_LABELS: Record<SwiftMatchStatus, string> = {
+  match: 'البنك والفرع يطابقان رمز السويفت',
+  mismatch: 'البنك أو الفرع لا يطابق رمز السويفت',
+  unknown: 'تعذر التحقق من مطابقة رمز السويفت',
+};
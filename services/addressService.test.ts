@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedData } from '../types';
+import { parseAddress, resolveCityName, validateLocation } from './addressService';
+
+const record = (fields: Partial<ExtractedData>): ExtractedData => ({
+  beneficiaryName: '',
+  accountNumber: '',
+  swiftCode: '',
+  bankName: '',
+  country: '',
+  province: '',
+  city: '',
+  address: '',
+  ...fields,
+});
+
+describe('parseAddress', () => {
+  it('يقسم العنوان الصيني إلى الشارع والمبنى والحي والرمز البريدي', () => {
+    expect(parseAddress('ROOM 1201, BLDG 3, NO. 88 HUAXIA ROAD, PUDONG DISTRICT, SHANGHAI 200120', 'CN')).toEqual({
+      street: 'NO. 88 HUAXIA ROAD',
+      building: 'ROOM 1201, BLDG 3',
+      postalCode: '200120',
+      district: 'PUDONG DISTRICT',
+    });
+  });
+
+  it('يتعرف على الكلمات العربية المستقلة فقط', () => {
+    expect(parseAddress('شارع الملك فهد، حي العليا', 'SA')).toEqual({ street: 'شارع الملك فهد', district: 'حي العليا' });
+    expect(parseAddress('مدينة الرياض الصحية')).toBeUndefined();
+  });
+
+  it('يستخرج الرمز البريدي بعد عنوانه الصريح لأي دولة', () => {
+    expect(parseAddress('12 MAIN STREET, ZIP: 10115')?.postalCode).toBe('10115');
+  });
+});
+
+describe('validateLocation', () => {
+  it('يقبل المدينة والمقاطعة في نفس الدولة بأي صيغة من صيغها', () => {
+    const result = validateLocation(record({ countryCode: 'CN', province: 'Guangdong', city: '广州' }));
+    expect(result.province?.status).toBe('valid');
+    expect(result.city?.status).toBe('valid');
+    expect(result.city?.warnings).toBeUndefined();
+    expect(resolveCityName('canton', 'CN')).toBe('GUANGZHOU');
+  });
+
+  it('ينبه إلى مدينة من مقاطعة أخرى ويرفض مدينة من دولة أخرى', () => {
+    expect(validateLocation(record({ countryCode: 'CN', province: 'ZHEJIANG', city: 'SHENZHEN' })).city?.warnings).toHaveLength(1);
+    expect(validateLocation(record({ countryCode: 'CN', city: 'DUBAI' })).city?.status).toBe('invalid');
+  });
+
+  it('لا يرفض الأسماء غير الموجودة في الدليل', () => {
+    expect(validateLocation(record({ countryCode: 'CN', city: 'SOMEWHERE' })).city?.status).toBe('unverifiable');
+    expect(validateLocation(record({ city: 'DUBAI' }))).toEqual({});
+  });
+});
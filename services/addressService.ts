@@ -0,0 +1,113 @@
+import { AddressParts, ExtractedData, FieldValidation } from '../types';
+import { getCountryName } from './countryData';
+import { findCities, findProvinces, hasGazetteer } from './gazetteerData';
+
+// صيغ الرمز البريدي حسب الدولة؛ الدول غير المذكورة لا يُستخرج لها الرمز إلا إذا ورد بعد عنوان صريح
+const POSTAL_CODE_PATTERNS: Record<string, RegExp> = {
+  CN: /\b\d{6}\b/g,
+  IN: /\b\d{3} ?\d{3}\b/g,
+  SG: /\b\d{6}\b/g,
+  VN: /\b\d{6}\b/g,
+  US: /\b\d{5}(?:-\d{4})?\b/g,
+  GB: /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b/g,
+  NL: /\b\d{4} ?[A-Z]{2}\b/g,
+  DE: /\b\d{5}\b/g, ES: /\b\d{5}\b/g, FR: /\b\d{5}\b/g, IT: /\b\d{5}\b/g, TR: /\b\d{5}\b/g,
+  SA: /\b\d{5}(?:-\d{4})?\b/g, MY: /\b\d{5}\b/g, EG: /\b\d{5}\b/g, KW: /\b\d{5}\b/g, TH: /\b\d{5}\b/g,
+};
+
+const LABELED_POSTAL_CODE = /(?:POSTAL CODE|POST CODE|POSTCODE|ZIP CODE|ZIP|الرمز البريدي)\s*[:.]?\s*([A-Z0-9][A-Z0-9 -]{2,9}[A-Z0-9])/;
+
+// الكلمات الدالة على نوع كل جزء من العنوان (إنجليزي، صيني بالحروف اللاتينية، تركي، ملايوي، فيتنامي، عربي)
+// الكلمات العربية يجب أن تكون كلمة مستقلة (مع أداة التعريف) حتى لا تطابق "حي" داخل "الصحية"
+const arabicWords = (words: string) => `(?<!\\p{L})(?:ال)?(?:${words})(?!\\p{L})`;
+
+const STREET_PATTERN = new RegExp(`\\b(ROAD|RD|STREET|ST|AVENUE|AVE|LANE|LN|BOULEVARD|BLVD|WAY|HIGHWAY|HWY|DRIVE|DR|LU|JIE|DADAO|CADDESI|CAD|SOKAK|SOKAGI|SK|JALAN|JLN|DUONG)\\b|\\B(STRASSE|STR)\\b|[路街道]|${arabicWords('شارع|طريق')}`, 'u');
+const BUILDING_PATTERN = new RegExp(`\\b(BUILDING|BLDG|BLOCK|BLK|TOWER|FLOOR|FL|ROOM|RM|UNIT|SUITE|OFFICE|FLAT|APT|APARTMENT|PLAZA|MANSION|DASHA|NO)\\b|[号楼室座层]|${arabicWords('مبنى|بناية|عمارة|برج|طابق|شقة|مكتب')}`, 'u');
+const DISTRICT_PATTERN = new RegExp(`\\b(DISTRICT|DIST|QU|AREA|ZONE|TOWN|TOWNSHIP|ZHEN|SUBDISTRICT|JIEDAO|VILLAGE|COUNTY|MAHALLESI|MAH|WARD|PHUONG|QUAN)\\b|[区镇县]|${arabicWords('حي|منطقة|مديرية')}`, 'u');
+
+const findPostalCode = (address: string, countryCode?: string): string | undefined => {
+  const labeled = address.match(LABELED_POSTAL_CODE);
+  if (labeled) return labeled[1].trim();
+  const pattern = countryCode ? POSTAL_CODE_PATTERNS[countryCode] : undefined;
+  if (!pattern) return undefined;
+  // الرمز البريدي يأتي غالباً في آخر العنوان، فنأخذ آخر تطابق
+  const matches = address.match(pattern);
+  return matches?.[matches.length - 1];
+};
+
+/**
+ * يقسم العنوان إلى الشارع والمبنى والرمز البريدي والحي حسب الكلمات الدالة في كل مقطع (المقاطع مفصولة بفواصل).
+ * يعيد undefined إذا لم يتم التعرف على أي جزء.
+ */
+export const parseAddress = (address: string, countryCode?: string): AddressParts | undefined => {
+  const postalCode = findPostalCode(address, countryCode);
+  const parts: Record<'street' | 'building' | 'district', string[]> = { street: [], building: [], district: [] };
+
+  for (const rawSegment of address.split(/[,;\n،]+/)) {
+    const segment = (postalCode ? rawSegment.replace(postalCode, '') : rawSegment).replace(LABELED_POSTAL_CODE, '').trim();
+    if (!segment) continue;
+    // الشارع أولاً لأن رقم المبنى يرد غالباً مع اسم الشارع (مثل NO. 88 HUAXIA ROAD)
+    if (STREET_PATTERN.test(segment)) parts.street.push(segment);
+    else if (BUILDING_PATTERN.test(segment)) parts.building.push(segment);
+    else if (DISTRICT_PATTERN.test(segment)) parts.district.push(segment);
+  }
+
+  const result: AddressParts = {
+    ...(parts.street.length ? { street: parts.street.join(', ') } : {}),
+    ...(parts.building.length ? { building: parts.building.join(', ') } : {}),
+    ...(postalCode ? { postalCode } : {}),
+    ...(parts.district.length ? { district: parts.district.join(', ') } : {}),
+  };
+  return Object.keys(result).length ? result : undefined;
+};
+
+/**
+ * الاسم المعتمد للمقاطعة أو المدينة من الدليل المحلي إن وُجدت في نفس الدولة، وإلا null.
+ */
+export const resolveProvinceName = (province: string, countryCode?: string): string | null =>
+  findProvinces(province).find(entry => entry.countryCode === countryCode)?.province ?? null;
+
+export const resolveCityName = (city: string, countryCode?: string): string | null =>
+  findCities(city).find(entry => entry.countryCode === countryCode)?.city ?? null;
+
+/**
+ * يتحقق من أن المقاطعة والمدينة تتبعان الدولة المستخرجة، وأن المدينة تتبع المقاطعة، حسب الدليل الجغرافي المحلي.
+ * الأسماء غير الموجودة في الدليل تُعلَّم "غير قابلة للتحقق" لأن الدليل لا يشمل كل المدن.
+ * لا يتم الفحص إذا لم يتم التعرف على الدولة.
+ */
+export const validateLocation = ({ countryCode, province, city }: ExtractedData): { province?: FieldValidation; city?: FieldValidation } => {
+  const result: { province?: FieldValidation; city?: FieldValidation } = {};
+  if (!countryCode) return result;
+  const countryName = getCountryName(countryCode);
+  const provinceName = province ? resolveProvinceName(province, countryCode) : null;
+
+  if (province) {
+    const elsewhere = findProvinces(province);
+    if (provinceName) {
+      result.province = { status: 'valid', message: `المقاطعة تتبع ${countryName} حسب الدليل المحلي.` };
+    } else if (elsewhere.length) {
+      result.province = { status: 'invalid', message: `المقاطعة ${province} تتبع ${getCountryName(elsewhere[0].countryCode)} وليس ${countryName}.` };
+    } else if (hasGazetteer(countryCode)) {
+      result.province = { status: 'unverifiable', message: `المقاطعة غير موجودة في الدليل المحلي لدولة ${countryName}.` };
+    }
+  }
+
+  if (city) {
+    const entries = findCities(city);
+    const inCountry = entries.filter(entry => entry.countryCode === countryCode);
+    if (inCountry.length) {
+      const inProvince = !provinceName || inCountry.some(entry => entry.province === provinceName);
+      result.city = {
+        status: 'valid',
+        message: `المدينة تتبع ${countryName} حسب الدليل المحلي.`,
+        ...(inProvince ? {} : { warnings: [`المدينة تتبع مقاطعة ${inCountry[0].province} وليس ${provinceName}.`] }),
+      };
+    } else if (entries.length) {
+      result.city = { status: 'invalid', message: `المدينة ${city} تقع في ${getCountryName(entries[0].countryCode)} وليس ${countryName}.` };
+    } else if (hasGazetteer(countryCode)) {
+      result.city = { status: 'unverifiable', message: `المدينة غير موجودة في الدليل المحلي لدولة ${countryName}.` };
+    }
+  }
+
+  return result;
+};
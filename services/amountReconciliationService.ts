@@ -0,0 +1,83 @@
+import { AmountComparison, AmountReconciliation, DocumentType, ExtractedData } from '../types';
+import { resolveCurrencyCode } from './currencyData';
+
+const SETTINGS_KEY = 'manea-pro:amount-reconciliation';
+
+export interface AmountReconciliationSettings {
+  baseCurrency: string;
+  tolerancePercent: number; // الفرق المسموح بين المبالغ كنسبة من المبلغ المرجعي
+  rates: Record<string, number>; // قيمة وحدة واحدة من العملة بالعملة الأساسية، يدخلها المستخدم
+}
+
+const DEFAULT_SETTINGS: AmountReconciliationSettings = { baseCurrency: 'USD', tolerancePercent: 1, rates: {} };
+
+// الفواتير هي المرجع عند مقارنة المبالغ لأنها أساس التحويل
+const REFERENCE_TYPES: DocumentType[] = ['commercialInvoice', 'proformaInvoice'];
+
+export const loadAmountReconciliationSettings = (): AmountReconciliationSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveAmountReconciliationSettings = (settings: AmountReconciliationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// تحويل المبلغ إلى العملة الأساسية؛ null عند غياب العملة أو سعر صرفها لأن قيمة المبلغ عندها غير معروفة
+const convert = (amount: number, currency: string | undefined, { baseCurrency, rates }: AmountReconciliationSettings): number | null => {
+  const code = resolveCurrencyCode(currency) ?? currency;
+  if (!code) return null;
+  if (code === baseCurrency) return amount;
+  const rate = rates[code];
+  return rate && rate > 0 ? amount * rate : null;
+};
+
+/**
+ * يقارن مبالغ مستندات الدفعة (فاتورة، عقد، قائمة تعبئة...) بعد تحويلها إلى العملة الأساسية.
+ * المستندات التي لا تحتوي مبلغاً لا تدخل في المقارنة.
+ */
+export const reconcileAmounts = (records: ExtractedData[], settings: AmountReconciliationSettings): AmountReconciliation => {
+  const comparisons: AmountComparison[] = records.flatMap((record, index) =>
+    record.amount === undefined ? [] : [{
+      index,
+      amount: record.amount,
+      currency: record.currency,
+      convertedAmount: convert(record.amount, record.currency, settings),
+      deviationPercent: null,
+    }],
+  );
+
+  const convertible = comparisons.filter(c => c.convertedAmount !== null);
+  const reference = convertible.find(c => REFERENCE_TYPES.includes(records[c.index].documentType ?? 'other')) ?? convertible[0];
+  for (const comparison of convertible) {
+    if (!reference || !reference.convertedAmount) break;
+    comparison.deviationPercent = Math.abs(comparison.convertedAmount! - reference.convertedAmount) / reference.convertedAmount * 100;
+  }
+
+  const mismatchedIndices = convertible
+    .filter(c => c.deviationPercent !== null && c.deviationPercent > settings.tolerancePercent)
+    .map(c => c.index);
+  const unconverted = comparisons.filter(c => c.convertedAmount === null);
+  const missingRateCurrencies = [...new Set(unconverted.filter(c => c.currency).map(c => c.currency!))];
+  const missingCurrencyIndices = unconverted.filter(c => !c.currency).map(c => c.index);
+
+  let status: AmountReconciliation['status'] = 'pass';
+  if (mismatchedIndices.length > 0) status = 'fail';
+  // مبلغ مرجعي صفري لا يسمح بحساب نسبة الفرق
+  else if (convertible.length < 2 || unconverted.length > 0 || !reference?.convertedAmount) status = 'incomplete';
+
+  return {
+    status,
+    baseCurrency: settings.baseCurrency,
+    tolerancePercent: settings.tolerancePercent,
+    referenceIndex: reference?.index ?? null,
+    comparisons,
+    mismatchedIndices,
+    missingRateCurrencies,
+    missingCurrencyIndices,
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedData } from '../types';
+import { createBlocklistEntry, mergeBlocklists, parseBlocklistFile, screenAgainstBlocklist, splitCsvLine } from './blocklistService';
+
+const record = (fields: Partial<ExtractedData>): ExtractedData => ({
+  beneficiaryName: '',
+  accountNumber: '',
+  swiftCode: '',
+  bankName: '',
+  country: '',
+  province: '',
+  city: '',
+  address: '',
+  ...fields,
+});
+
+describe('parseBlocklistFile', () => {
+  it('يقرأ ملف CSV بأسماء أعمدة بديلة وقيم بين علامتي اقتباس', () => {
+    const entries = parseBlocklistFile('\uFEFFType,Value,Reason,Source\nswift,czcb cn2x,"محظور, حسب التعميم",OFAC\nbank,Example Bank,,\n', 'list.csv');
+    expect(entries.map(({ type, value, reason }) => ({ type, value, reason }))).toEqual([
+      { type: 'bic', value: 'CZCBCN2X', reason: 'محظور, حسب التعميم' },
+      { type: 'bankName', value: 'Example Bank', reason: '' },
+    ]);
+  });
+
+  it('يقرأ ملف JSON', () => {
+    const entries = parseBlocklistFile('[{"type":"country","value":"Iran"}]', 'LIST.JSON');
+    expect(entries[0]).toMatchObject({ type: 'country', value: 'Iran' });
+  });
+
+  it('يذكر رقم السطر في رسالة الخطأ', () => {
+    expect(() => parseBlocklistFile('type,value\nbic,CZCBCN2X\nbic,123', 'list.csv')).toThrow('السطر 3');
+    expect(() => parseBlocklistFile('type,value\nbank,---', 'list.csv')).toThrow('لا تحتوي على أحرف أو أرقام');
+    expect(() => parseBlocklistFile('{"type":"bic"}', 'list.json')).toThrow('مصفوفة');
+  });
+});
+
+describe('createBlocklistEntry', () => {
+  it('يرفض القواعد اليدوية غير الصالحة دون ذكر رقم سطر', () => {
+    expect(() => createBlocklistEntry('bic', 'CZCB', '', '')).toThrow(/^رمز السويفت/);
+  });
+});
+
+describe('splitCsvLine', () => {
+  it('يفك علامات الاقتباس المكررة', () => {
+    expect(splitCsvLine('a,"b ""c""",d')).toEqual(['a', 'b "c"', 'd']);
+  });
+});
+
+describe('mergeBlocklists', () => {
+  it('يتجاهل القواعد المكررة بعد التوحيد', () => {
+    const existing = [createBlocklistEntry('bankName', 'Example Bank', '', '')];
+    const merged = mergeBlocklists(existing, [createBlocklistEntry('bankName', 'EXAMPLE  bank', '', ''), createBlocklistEntry('country', 'Iraq', '', '')]);
+    expect(merged.map(entry => entry.value)).toEqual(['Example Bank', 'Iraq']);
+  });
+});
+
+describe('screenAgainstBlocklist', () => {
+  const entries = [
+    createBlocklistEntry('bic', 'CZCBCN2X', 'بنك محظور', ''),
+    createBlocklistEntry('bankName', 'Sanctioned Bank', '', ''),
+    createBlocklistEntry('beneficiaryName', 'Blocked Trading Co Ltd', '', ''),
+    createBlocklistEntry('country', 'Iraq', '', ''),
+  ];
+
+  it('يطابق رمز السويفت على أول 8 خانات لكل الفروع', () => {
+    const matches = screenAgainstBlocklist(record({ swiftCode: 'czcb cn2x 123' }), entries);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ field: 'swiftCode', matchedValue: 'czcb cn2x 123' });
+  });
+
+  it('يطابق اسم البنك ضمن الاسم الكامل والاسم المشابه للمستفيد', () => {
+    const matches = screenAgainstBlocklist(record({ bankName: 'The Sanctioned Bank, Shanghai Branch', beneficiaryName: 'BLOCKED TRADING CO. LTD' }), entries);
+    expect(matches.map(match => match.field).sort()).toEqual(['bankName', 'beneficiaryName']);
+  });
+
+  it('يطابق الدولة بالرمز مهما اختلفت كتابتها', () => {
+    expect(screenAgainstBlocklist(record({ country: 'العراق' }), entries)).toHaveLength(1);
+  });
+
+  it('لا يطابق البيانات النظيفة أو قواعد محفوظة قيمتها فارغة بعد التوحيد', () => {
+    const emptyRule = { id: 'old', type: 'bankName' as const, value: '--', reason: '', source: '' };
+    expect(screenAgainstBlocklist(record({ swiftCode: 'ICBKCNBJ', bankName: 'ICBC', beneficiaryName: 'ACME LTD', country: 'China' }), [...entries, emptyRule])).toEqual([]);
+  });
+});
@@ -0,0 +1,177 @@
+import { BlocklistEntry, BlocklistMatch, BlocklistRuleType, ExtractedData, ExtractedFieldKey } from '../types';
+import { resolveCountryCode } from './countryData';
+import { normalizeForComparison, similarity } from './reconciliationService';
+import { getFieldValue } from './recordService';
+
+const STORAGE_KEY = 'manea-pro:blocklist';
+const NAME_MATCH_THRESHOLD = 0.85;
+
+// القائمة الافتراضية عند أول تشغيل (كانت سابقاً ثابتة في الكود)
+const DEFAULT_BLOCKLIST: BlocklistEntry[] = [
+  { id: 'default-czcbcn2x', type: 'bic', value: 'CZCBCN2X', reason: 'بنك محظور التعامل معه في الحوالات', source: 'القائمة الافتراضية' },
+];
+
+const RULE_FIELDS: Record<BlocklistRuleType, ExtractedFieldKey> = {
+  bic: 'swiftCode',
+  bankName: 'bankName',
+  beneficiaryName: 'beneficiaryName',
+  country: 'country',
+};
+
+export const BLOCKLIST_RULE_LABELS: Record<BlocklistRuleType, string> = {
+  bic: 'رمز سويفت',
+  bankName: 'اسم بنك',
+  beneficiaryName: 'اسم مستفيد',
+  country: 'دولة',
+};
+
+// أسماء الأعمدة المقبولة عند الاستيراد لكل نوع قاعدة
+const RULE_TYPE_ALIASES: Record<string, BlocklistRuleType> = {
+  bic: 'bic', swift: 'bic', swiftcode: 'bic',
+  bank: 'bankName', bankname: 'bankName',
+  beneficiary: 'beneficiaryName', beneficiaryname: 'beneficiaryName', name: 'beneficiaryName',
+  country: 'country',
+};
+
+const BIC_PATTERN = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const loadBlocklist = (): BlocklistEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as BlocklistEntry[]) : DEFAULT_BLOCKLIST;
+  } catch (e) {
+    console.error("Failed to load blocklist from localStorage:", e);
+    return DEFAULT_BLOCKLIST;
+  }
+};
+
+export const saveBlocklist = (entries: BlocklistEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+// رقم السطر يُذكر في رسالة الخطأ عند الاستيراد من ملف فقط
+const invalidEntry = (position: number | undefined, reason: string) =>
+  new Error(position ? `سجل غير صالح في السطر ${position}: ${reason}` : reason);
+
+const toEntry = (raw: Record<string, unknown>, position?: number): BlocklistEntry => {
+  const type = RULE_TYPE_ALIASES[String(raw.type ?? '').trim().toLowerCase().replace(/[\s_-]/g, '')];
+  const value = String(raw.value ?? '').trim();
+  if (!type || !value) {
+    throw invalidEntry(position, 'يجب تحديد نوع القاعدة (bic, bankName, beneficiaryName, country) وقيمتها.');
+  }
+  // قيمة من رموز فقط تصبح نصاً فارغاً بعد التوحيد فتطابق كل البنوك
+  if (!normalizeForComparison(value)) {
+    throw invalidEntry(position, `القيمة "${value}" لا تحتوي على أحرف أو أرقام.`);
+  }
+  const bic = value.toUpperCase().replace(/\s/g, '');
+  if (type === 'bic' && !BIC_PATTERN.test(bic)) {
+    throw invalidEntry(position, `رمز السويفت "${value}" يجب أن يتكون من 8 أو 11 خانة بالبنية المعتمدة.`);
+  }
+  return {
+    id: createId(),
+    type,
+    value: type === 'bic' ? bic : value,
+    reason: String(raw.reason ?? '').trim(),
+    source: String(raw.source ?? '').trim(),
+  };
+};
+
+export const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && inQuotes && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map(cell => cell.trim());
+};
+
+/**
+ * يحلل ملف قائمة حظر بصيغة CSV (بأعمدة type,value,reason,source) أو JSON (مصفوفة كائنات بنفس المفاتيح).
+ */
+export const parseBlocklistFile = (content: string, fileName: string): BlocklistEntry[] => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error("ملف JSON غير صالح.");
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error("يجب أن يحتوي ملف JSON على مصفوفة من القواعد.");
+    }
+    return parsed.map((item, i) => toEntry(item as Record<string, unknown>, i + 1));
+  }
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) {
+    throw new Error("ملف CSV فارغ أو لا يحتوي على سطر العناوين.");
+  }
+  const headers = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  return lines.slice(1).map((line, i) => {
+    const cells = splitCsvLine(line);
+    const raw = Object.fromEntries(headers.map((header, j) => [header, cells[j] ?? '']));
+    return toEntry(raw, i + 2);
+  });
+};
+
+/**
+ * يدمج القواعد المستوردة مع القائمة الحالية مع تجاهل المكرر (نفس النوع والقيمة).
+ */
+export const mergeBlocklists = (existing: BlocklistEntry[], imported: BlocklistEntry[]): BlocklistEntry[] => {
+  const keyOf = (e: BlocklistEntry) => `${e.type}:${normalizeForComparison(e.value)}`;
+  const seen = new Set(existing.map(keyOf));
+  const merged = [...existing];
+  for (const entry of imported) {
+    if (seen.has(keyOf(entry))) continue;
+    seen.add(keyOf(entry));
+    merged.push(entry);
+  }
+  return merged;
+};
+
+export const createBlocklistEntry = (type: BlocklistRuleType, value: string, reason: string, source: string): BlocklistEntry =>
+  toEntry({ type, value, reason, source });
+
+const matchesRule = (entry: BlocklistEntry, value: string): boolean => {
+  switch (entry.type) {
+    case 'bic':
+      // المطابقة على أول 8 خانات حتى تشمل القاعدة جميع فروع البنك
+      return value.replace(/\s/g, '').toUpperCase().slice(0, 8) === entry.value.replace(/\s/g, '').toUpperCase().slice(0, 8);
+    case 'bankName': {
+      // القواعد المحفوظة قبل التحقق من القيم قد تكون فارغة بعد التوحيد
+      const name = normalizeForComparison(entry.value);
+      return !!name && normalizeForComparison(value).includes(name);
+    }
+    case 'beneficiaryName':
+      return similarity(value, entry.value) >= NAME_MATCH_THRESHOLD;
+    case 'country': {
+      const code = resolveCountryCode(value);
+      return code ? code === resolveCountryCode(entry.value) : normalizeForComparison(value) === normalizeForComparison(entry.value);
+    }
+  }
+};
+
+/**
+ * يفحص البيانات المستخرجة مقابل قائمة الحظر ويعيد كل القواعد المطابقة.
+ */
+export const screenAgainstBlocklist = (data: ExtractedData, entries: BlocklistEntry[]): BlocklistMatch[] =>
+  entries.flatMap(entry => {
+    const field = RULE_FIELDS[entry.type];
+    const value = getFieldValue(data, field);
+    return value && matchesRule(entry, value) ? [{ entry, field, matchedValue: value }] : [];
+  });
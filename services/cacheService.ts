@@ -0,0 +1,89 @@
+const CACHE_PREFIX = 'manea-pro:cache:';
+const SETTINGS_KEY = 'manea-pro:cache-settings';
+
+export interface CacheSettings {
+  ttlHours: number; // 0 يعني تعطيل الذاكرة المؤقتة
+}
+
+const DEFAULT_SETTINGS: CacheSettings = { ttlHours: 24 * 7 };
+
+interface CacheRecord<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export const loadCacheSettings = (): CacheSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const readCache = <T>(key: string): T | null => {
+  // النتائج المخزنة قبل تعطيل الذاكرة المؤقتة لا تُستخدم
+  if (loadCacheSettings().ttlHours <= 0) return null;
+  try {
+    const stored = localStorage.getItem(CACHE_PREFIX + key);
+    if (!stored) return null;
+    const record = JSON.parse(stored) as CacheRecord<T>;
+    if (record.expiresAt < Date.now()) {
+      localStorage.removeItem(CACHE_PREFIX + key);
+      return null;
+    }
+    return record.value;
+  } catch {
+    return null;
+  }
+};
+
+// مفاتيح الذاكرة المؤقتة مرتبة من الأقدم (الأقرب انتهاءً) إلى الأحدث؛ السجلات التالفة أولاً
+const listCacheEntries = (): { key: string; expiresAt: number }[] =>
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_PREFIX))
+    .map(key => {
+      try {
+        return { key, expiresAt: (JSON.parse(localStorage.getItem(key) ?? '') as CacheRecord<unknown>).expiresAt ?? 0 };
+      } catch {
+        return { key, expiresAt: 0 };
+      }
+    })
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+
+export const writeCache = <T>(key: string, value: T) => {
+  const { ttlHours } = loadCacheSettings();
+  if (ttlHours <= 0) return;
+  const record: CacheRecord<T> = { value, expiresAt: Date.now() + ttlHours * 60 * 60 * 1000 };
+  const serialized = JSON.stringify(record);
+  try {
+    localStorage.setItem(CACHE_PREFIX + key, serialized);
+    return;
+  } catch {
+    // غالباً امتلاء مساحة التخزين؛ نحذف السجلات المنتهية ثم الأقدم حتى يتسع السجل الجديد، دون إيقاف المعالجة
+  }
+  const now = Date.now();
+  const entries = listCacheEntries().filter(entry => entry.key !== CACHE_PREFIX + key);
+  const expired = entries.filter(entry => entry.expiresAt < now);
+  expired.forEach(entry => localStorage.removeItem(entry.key));
+  const remaining = entries.slice(expired.length);
+  for (let i = 0; i <= remaining.length; i++) {
+    if (i > 0) localStorage.removeItem(remaining[i - 1].key);
+    try {
+      localStorage.setItem(CACHE_PREFIX + key, serialized);
+      return;
+    } catch (e) {
+      if (i === remaining.length) console.warn("Failed to write result cache:", e);
+    }
+  }
+};
+
+export const clearCache = () => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(CACHE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,119 @@
+import { CompanyReport, CompanyReportBankKey, CompanyReportCompanyKey, ReportClaim, SwiftMatchStatus } from '../types';
+import { COMPANY_REPORT_BANK_LABELS, COMPANY_REPORT_COMPANY_LABELS, SWIFT_MATCH_LABELS } from '../constants';
+import { getCountryName, resolveCountryCode } from './countryData';
+
+// التقرير كما يعيده النموذج قبل ربط كل معلومة بمصادرها؛ القيم نصوص غالباً وقد تأتي أرقاماً
+type RawValue = string | number;
+
+export interface RawCompanyReport {
+  company?: Partial<Record<CompanyReportCompanyKey, RawValue>>;
+  bank?: Partial<Record<CompanyReportBankKey, RawValue>> & { branchCountry?: string; swiftMatch?: string; swiftNote?: RawValue };
+  goods?: { summary?: RawValue };
+  redFlags?: RawValue[];
+}
+
+// مقطع من نص الإجابة مع المصادر التي يستند إليها (فهارس في قائمة sources)
+export interface GroundedSegment {
+  text: string;
+  sourceIndices: number[];
+}
+
+const SWIFT_MATCH_VALUES: SwiftMatchStatus[] = ['match', 'mismatch', 'unknown'];
+
+// اسم خطأ تحليل التقرير، للتمييز بينه وبين أخطاء الاتصال بالخدمة (بنفس طريقة AbortError)
+const REPORT_PARSE_ERROR = 'CompanyReportParseError';
+
+export const isReportParseError = (error: unknown): boolean => (error as any)?.name === REPORT_PARSE_ERROR;
+
+// المقاطع القصيرة جداً (مثل الأقواس وعلامات الاقتباس في JSON) لا تدل على معلومة بعينها
+const MIN_SEGMENT_LENGTH = 8;
+
+/**
+ * يحلل نص JSON الذي يعيده النموذج، مع تجاهل علامات ```json التي قد تحيط به.
+ */
+export const parseRawCompanyReport = (text: string): RawCompanyReport => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  try {
+    if (start === -1 || end < start) throw new Error('No JSON object');
+    return JSON.parse(text.slice(start, end + 1)) as RawCompanyReport;
+  } catch (e) {
+    console.error('Failed to parse company report JSON:', text);
+    const error = new Error('فشل في تحليل تقرير الشركة: تنسيق استجابة غير متوقع من النموذج.');
+    error.name = REPORT_PARSE_ERROR;
+    throw error;
+  }
+};
+
+const toClaim = (value: unknown, segments: GroundedSegment[]): ReportClaim | undefined => {
+  // النموذج قد يعيد بعض القيم أرقاماً رغم طلب النصوص، مثل سنة التأسيس 1998
+  const text = typeof value === 'number' && Number.isFinite(value) ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (!text) return undefined;
+  // المعلومة مرتبطة بكل مقطع مدعوم يحتويها أو يقع ضمنها
+  const sourceIndices = segments
+    .filter(segment => {
+      const segmentText = segment.text.trim();
+      return segmentText.includes(text) || (segmentText.length >= MIN_SEGMENT_LENGTH && text.includes(segmentText));
+    })
+    .flatMap(segment => segment.sourceIndices);
+  return { text, sourceIndices: [...new Set(sourceIndices)].sort((a, b) => a - b) };
+};
+
+const toClaims = <K extends string>(values: Partial<Record<K, RawValue>> | undefined, keys: K[], segments: GroundedSegment[]): Partial<Record<K, ReportClaim>> =>
+  Object.fromEntries(keys.flatMap(key => {
+    const claim = toClaim(values?.[key], segments);
+    return claim ? [[key, claim]] : [];
+  })) as Partial<Record<K, ReportClaim>>;
+
+/**
+ * يبني التقرير المنظم ويربط كل معلومة بمصادر البحث التي وردت فيها.
+ * دولة الفرع تُقارن محلياً مع دولة رمز السويفت (الخانتان 5-6)، وعدم التطابق يتقدم على تقدير النموذج.
+ */
+export const buildCompanyReport = (raw: RawCompanyReport, segments: GroundedSegment[], swiftCode?: string): CompanyReport => {
+  const bank = toClaims(raw.bank, Object.keys(COMPANY_REPORT_BANK_LABELS) as CompanyReportBankKey[], segments);
+  let swiftMatch: SwiftMatchStatus = SWIFT_MATCH_VALUES.find(status => status === raw.bank?.swiftMatch) ?? 'unknown';
+  let swiftNote = toClaim(raw.bank?.swiftNote, segments);
+
+  const bicCountry = (swiftCode || '').replace(/\s/g, '').toUpperCase().slice(4, 6);
+  const branchCountry = resolveCountryCode(raw.bank?.branchCountry);
+  if (/^[A-Z]{2}$/.test(bicCountry) && branchCountry && branchCountry !== bicCountry) {
+    swiftMatch = 'mismatch';
+    swiftNote = {
+      text: `موقع الفرع في ${getCountryName(branchCountry)} بينما دولة رمز السويفت ${bicCountry}.`,
+      sourceIndices: bank.branchLocation?.sourceIndices ?? [],
+    };
+  }
+
+  return {
+    company: toClaims(raw.company, Object.keys(COMPANY_REPORT_COMPANY_LABELS) as CompanyReportCompanyKey[], segments),
+    bank: { ...bank, swiftMatch, ...(swiftNote ? { swiftNote } : {}) },
+    goods: toClaims(raw.goods, ['summary'], segments),
+    redFlags: (Array.isArray(raw.redFlags) ? raw.redFlags : [])
+      .map(flag => toClaim(flag, segments))
+      .filter((claim): claim is ReportClaim => !!claim),
+  };
+};
+
+/**
+ * نص التقرير للنسخ والتصدير، بأقسام مفصولة بسطر فارغ ودون رموز تنسيق.
+ */
+export const formatCompanyReport = (report: CompanyReport, companyName: string, bankName: string): string => {
+  const lines = <K extends string>(claims: Partial<Record<K, ReportClaim>>, labels: Record<K, { label: string }>) =>
+    (Object.keys(labels) as K[]).filter(key => claims[key]).map(key => `${labels[key].label}: ${claims[key]!.text}`);
+
+  const { swiftMatch, swiftNote } = report.bank;
+  const sections = [
+    [`شركة ${companyName}`, ...lines(report.company, COMPANY_REPORT_COMPANY_LABELS)],
+    [`بنك ${bankName}`, ...lines(report.bank, COMPANY_REPORT_BANK_LABELS), `مطابقة السويفت: ${SWIFT_MATCH_LABELS[swiftMatch]}${swiftNote ? ` (${swiftNote.text})` : ''}`],
+    report.goods.summary ? [`البضاعة المذكورة في الفاتورة: ${report.goods.summary.text}`] : [],
+    report.redFlags.length ? ['مؤشرات الخطر:', ...report.redFlags.map(flag => `• ${flag.text}`)] : [],
+  ];
+  return sections.filter(section => section.length).map(section => section.join('\n')).join('\n\n');
+};
+
+// هل يحتوي التقرير على أي معلومة من البحث
+export const hasReportContent = (report: CompanyReport): boolean =>
+  Object.keys(report.company).length > 0 ||
+  Object.keys(report.bank).some(key => key !== 'swiftMatch') ||
+  !!report.goods.summary ||
+  report.redFlags.length > 0;
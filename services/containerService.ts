@@ -0,0 +1,237 @@
+// فك الملفات الحاوية (ZIP والبريد الإلكتروني .eml و .msg) إلى ملفات مستقلة قابلة للمعالجة.
+// يعتمد ZIP و MSG على مكتبة CFB المضمنة في SheetJS.
+import { CFB } from 'xlsx';
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  eml: 'message/rfc822',
+  msg: 'application/vnd.ms-outlook',
+  zip: 'application/zip',
+};
+
+const CONTAINER_EXTENSIONS = ['zip', 'eml', 'msg'];
+
+// أقصى عمق للحاويات المتداخلة (مثلاً رسالة داخل ملف ZIP داخل رسالة)
+const MAX_DEPTH = 3;
+
+const getExtension = (name: string) => name.toLowerCase().split('.').pop() ?? '';
+
+export const isContainerFile = (file: File) => CONTAINER_EXTENSIONS.includes(getExtension(file.name));
+
+// الملفات المستخرجة من الحاويات تُقبل فقط إذا كان نوعها مدعوماً للمعالجة
+const isSupportedFile = (name: string) => getExtension(name) in MIME_TYPES;
+
+const toFile = (bytes: Uint8Array, name: string, type?: string) =>
+  new File([bytes], name, { type: type || MIME_TYPES[getExtension(name)] || 'application/octet-stream' });
+
+// --- ZIP ---
+
+const expandZip = (bytes: Uint8Array): File[] => {
+  const archive = CFB.read(bytes, { type: 'array' });
+  const files: File[] = [];
+  archive.FileIndex.forEach((entry: any, i: number) => {
+    if (entry.type !== 2 || !entry.content?.length) return;
+    // FullPaths تبدأ باسم الجذر، نحذفه ونحتفظ بالمسار داخل الأرشيف
+    const path: string = archive.FullPaths[i].split('/').slice(1).join('/');
+    const name = path.split('/').pop() ?? '';
+    if (!name || name.startsWith('.') || path.startsWith('__MACOSX/') || !isSupportedFile(name)) return;
+    files.push(toFile(new Uint8Array(entry.content), name));
+  });
+  return files;
+};
+
+// --- EML (MIME) ---
+
+const bytesToBinary = (bytes: Uint8Array) => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const binaryToBytes = (binary: string) => Uint8Array.from(binary, c => c.charCodeAt(0));
+
+const decodeCharset = (bytes: Uint8Array, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const decodeQuotedPrintable = (value: string) =>
+  value.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// ترويسات مثل =?UTF-8?B?...?= في الموضوع وأسماء المرفقات
+const decodeEncodedWords = (value: string) =>
+  value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset, encoding, text) => {
+    const binary = encoding.toUpperCase() === 'B' ? atob(text) : decodeQuotedPrintable(text.replace(/_/g, ' '));
+    return decodeCharset(binaryToBytes(binary), charset);
+  });
+
+// الترويسات قد تحتوي UTF-8 خام أو كلمات مرمّزة
+const decodeHeader = (value: string) => decodeEncodedWords(decodeCharset(binaryToBytes(value)));
+
+const parseHeaders = (raw: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of raw.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+};
+
+const getHeaderParam = (header = '', name: string): string | undefined => {
+  // RFC 2231: filename*=UTF-8''%D9%81...
+  const extended = header.match(new RegExp(`${name}\\*=([^']*)'[^']*'([^;]+)`, 'i'));
+  if (extended) {
+    const binary = extended[2].trim().replace(/%([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return decodeCharset(binaryToBytes(binary), extended[1] || 'utf-8');
+  }
+  const match = header.match(new RegExp(`${name}=(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? decodeHeader(match[1] ?? match[2]) : undefined;
+};
+
+interface MimeResult {
+  text: string[];
+  html: string[];
+  attachments: File[];
+}
+
+const walkMimePart = (raw: string, result: MimeResult) => {
+  const split = raw.search(/\r?\n\r?\n/);
+  const headers = parseHeaders(split >= 0 ? raw.slice(0, split) : raw);
+  const body = split >= 0 ? raw.slice(split).replace(/^\r?\n\r?\n/, '') : '';
+  const contentType = headers['content-type'] || 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = getHeaderParam(contentType, 'boundary');
+    if (!boundary) return;
+    const parts = body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      if (part.startsWith('--')) break;
+      walkMimePart(part.replace(/^\r?\n/, ''), result);
+    }
+    return;
+  }
+
+  const encoding = (headers['content-transfer-encoding'] || '').toLowerCase();
+  const binary = encoding === 'base64' ? atob(body.replace(/\s/g, '')) : encoding === 'quoted-printable' ? decodeQuotedPrintable(body) : body;
+  const bytes = binaryToBytes(binary);
+  const fileName = getHeaderParam(headers['content-disposition'], 'filename') ?? getHeaderParam(contentType, 'name');
+  const isAttachment = !!fileName || /^attachment/i.test(headers['content-disposition'] || '');
+
+  if (mimeType === 'message/rfc822') {
+    result.attachments.push(toFile(bytes, fileName || 'attached-message.eml', MIME_TYPES.eml));
+  } else if (isAttachment) {
+    if (fileName && isSupportedFile(fileName)) result.attachments.push(toFile(bytes, fileName, MIME_TYPES[getExtension(fileName)]));
+  } else if (mimeType === 'text/plain') {
+    result.text.push(decodeCharset(bytes, getHeaderParam(contentType, 'charset')));
+  } else if (mimeType === 'text/html') {
+    result.html.push(decodeCharset(bytes, getHeaderParam(contentType, 'charset')));
+  }
+};
+
+const htmlToText = (html: string) =>
+  new DOMParser().parseFromString(html.replace(/<br\s*\/?>|<\/p>|<\/div>|<\/tr>/gi, '\n'), 'text/html').body.textContent ?? '';
+
+// نص الرسالة كملف نصي مستقل يبدأ بالموضوع والمرسل حتى يظهر سياقها عند الاستخراج
+const toBodyFile = (messageName: string, subject: string, from: string, body: string): File | null => {
+  if (!body.trim()) return null;
+  const header = [subject && `Subject: ${subject}`, from && `From: ${from}`].filter(Boolean).join('\n');
+  const text = header ? `${header}\n\n${body.trim()}` : body.trim();
+  return toFile(new TextEncoder().encode(text), `${messageName.replace(/\.[^.]+$/, '')} - نص الرسالة.txt`, MIME_TYPES.txt);
+};
+
+const expandEml = (file: File, bytes: Uint8Array): File[] => {
+  const raw = bytesToBinary(bytes);
+  const headerEnd = raw.search(/\r?\n\r?\n/);
+  const headers = parseHeaders(headerEnd >= 0 ? raw.slice(0, headerEnd) : raw);
+  const result: MimeResult = { text: [], html: [], attachments: [] };
+  walkMimePart(raw, result);
+
+  const body = result.text.length ? result.text.join('\n\n') : result.html.map(htmlToText).join('\n\n');
+  const bodyFile = toBodyFile(file.name, decodeHeader(headers.subject || ''), decodeHeader(headers.from || ''), body);
+  return [...(bodyFile ? [bodyFile] : []), ...result.attachments];
+};
+
+// --- MSG (Outlook, بصيغة CFB) ---
+
+const expandMsg = (file: File, bytes: Uint8Array): File[] => {
+  const message = CFB.read(bytes, { type: 'array' });
+  const streams = new Map<string, Uint8Array>();
+  message.FileIndex.forEach((entry: any, i: number) => {
+    if (entry.type === 2 && entry.content) streams.set(message.FullPaths[i].split('/').slice(1).join('/'), new Uint8Array(entry.content));
+  });
+
+  // خصائص MAPI النصية: 001F بترميز UTF-16، و 001E بترميز ANSI
+  const readString = (prefix: string, property: string) => {
+    const unicode = streams.get(`${prefix}__substg1.0_${property}001F`);
+    if (unicode) return new TextDecoder('utf-16le').decode(unicode).replace(/\0+$/, '');
+    const ansi = streams.get(`${prefix}__substg1.0_${property}001E`);
+    return ansi ? new TextDecoder('windows-1252').decode(ansi).replace(/\0+$/, '') : '';
+  };
+
+  const subject = readString('', '0037');
+  const from = readString('', '0C1A');
+  const htmlBody = streams.get('__substg1.0_10130102');
+  const body = readString('', '1000') || (htmlBody ? htmlToText(new TextDecoder('utf-8').decode(htmlBody)) : '');
+
+  const attachments: File[] = [];
+  const attachmentFolders = new Set(Array.from(streams.keys()).map(path => path.match(/^__attach_version1\.0_#[0-9A-F]{8}\//i)?.[0]).filter(Boolean) as string[]);
+  for (const folder of attachmentFolders) {
+    const data = streams.get(`${folder}__substg1.0_37010102`);
+    const name = readString(folder, '3707') || readString(folder, '3704');
+    if (data && name && isSupportedFile(name)) attachments.push(toFile(data, name, readString(folder, '370E') || undefined));
+  }
+
+  const bodyFile = toBodyFile(file.name, subject, from, body);
+  return [...(bodyFile ? [bodyFile] : []), ...attachments];
+};
+
+export interface ExpandedFile {
+  file: File;
+  parentName?: string; // مسار الحاوية التي استُخرج منها الملف، مثل "بريد.eml › مرفقات.zip"
+}
+
+/**
+ * يفك الحاويات بشكل متكرر ويعيد الملفات القابلة للمعالجة مع اسم الحاوية الأصلية لكل ملف.
+ * الملفات العادية تُعاد كما هي.
+ */
+export const expandContainerFiles = async (files: File[], parentName?: string, depth = 0): Promise<ExpandedFile[]> => {
+  const expanded: ExpandedFile[] = [];
+  for (const file of files) {
+    if (!isContainerFile(file) || depth >= MAX_DEPTH) {
+      expanded.push({ file, parentName });
+      continue;
+    }
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let children: File[];
+    try {
+      const extension = getExtension(file.name);
+      children = extension === 'zip' ? expandZip(bytes) : extension === 'eml' ? expandEml(file, bytes) : expandMsg(file, bytes);
+    } catch (e: any) {
+      console.error(`Failed to expand container ${file.name}:`, e);
+      throw new Error(`فشل في فتح الملف ${file.name}: الملف تالف أو بصيغة غير مدعومة.`);
+    }
+    if (children.length === 0) {
+      throw new Error(`لم يتم العثور على ملفات قابلة للمعالجة داخل ${file.name}.`);
+    }
+    const path = parentName ? `${parentName} › ${file.name}` : file.name;
+    expanded.push(...await expandContainerFiles(children, path, depth + 1));
+  }
+  return expanded;
+};
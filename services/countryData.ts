@@ -0,0 +1,79 @@
+// جدول مختصر لأسماء الدول الشائعة في المستندات (إنجليزي / عربي / صيغ مختصرة) مع رمز ISO 3166-1 alpha-2
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  AE: ['UNITED ARAB EMIRATES', 'UAE', 'U.A.E', 'EMIRATES', 'الإمارات', 'الامارات', 'الإمارات العربية المتحدة'],
+  BH: ['BAHRAIN', 'البحرين'],
+  CN: ['CHINA', 'PRC', 'P.R.C', 'P.R. CHINA', "PEOPLE'S REPUBLIC OF CHINA", 'PEOPLES REPUBLIC OF CHINA', 'الصين'],
+  DE: ['GERMANY', 'ألمانيا', 'المانيا'],
+  EG: ['EGYPT', 'مصر'],
+  ES: ['SPAIN', 'إسبانيا', 'اسبانيا'],
+  FR: ['FRANCE', 'فرنسا'],
+  GB: ['UNITED KINGDOM', 'UK', 'U.K', 'GREAT BRITAIN', 'ENGLAND', 'بريطانيا', 'المملكة المتحدة'],
+  HK: ['HONG KONG', 'هونغ كونغ', 'هونج كونج'],
+  IN: ['INDIA', 'الهند'],
+  IQ: ['IRAQ', 'العراق'],
+  IT: ['ITALY', 'إيطاليا', 'ايطاليا'],
+  JO: ['JORDAN', 'الأردن', 'الاردن'],
+  KW: ['KUWAIT', 'الكويت'],
+  LB: ['LEBANON', 'لبنان'],
+  MY: ['MALAYSIA', 'ماليزيا'],
+  NL: ['NETHERLANDS', 'HOLLAND', 'هولندا'],
+  OM: ['OMAN', 'SULTANATE OF OMAN', 'عمان', 'سلطنة عمان'],
+  PK: ['PAKISTAN', 'باكستان'],
+  QA: ['QATAR', 'قطر'],
+  SA: ['SAUDI ARABIA', 'KSA', 'K.S.A', 'KINGDOM OF SAUDI ARABIA', 'السعودية', 'المملكة العربية السعودية'],
+  SG: ['SINGAPORE', 'سنغافورة'],
+  TH: ['THAILAND', 'تايلاند'],
+  TR: ['TURKEY', 'TURKIYE', 'TÜRKIYE', 'تركيا'],
+  US: ['UNITED STATES', 'USA', 'U.S.A', 'UNITED STATES OF AMERICA', 'أمريكا', 'الولايات المتحدة'],
+  VN: ['VIETNAM', 'VIET NAM', 'فيتنام'],
+  YE: ['YEMEN', 'اليمن'],
+};
+
+// الاسم الإنجليزي المعتمد لكل دولة (الاسم المختصر في ISO 3166-1) بأحرف كبيرة كبقية حقول العنوان
+const COUNTRY_NAMES: Record<string, string> = {
+  AE: 'UNITED ARAB EMIRATES',
+  BH: 'BAHRAIN',
+  CN: 'CHINA',
+  DE: 'GERMANY',
+  EG: 'EGYPT',
+  ES: 'SPAIN',
+  FR: 'FRANCE',
+  GB: 'UNITED KINGDOM',
+  HK: 'HONG KONG',
+  IN: 'INDIA',
+  IQ: 'IRAQ',
+  IT: 'ITALY',
+  JO: 'JORDAN',
+  KW: 'KUWAIT',
+  LB: 'LEBANON',
+  MY: 'MALAYSIA',
+  NL: 'NETHERLANDS',
+  OM: 'OMAN',
+  PK: 'PAKISTAN',
+  QA: 'QATAR',
+  SA: 'SAUDI ARABIA',
+  SG: 'SINGAPORE',
+  TH: 'THAILAND',
+  TR: 'TURKIYE',
+  US: 'UNITED STATES',
+  VN: 'VIET NAM',
+  YE: 'YEMEN',
+};
+
+const normalizeName = (value: string) => value.trim().toUpperCase().replace(/[.\s]+$/g, '').replace(/\s+/g, ' ');
+
+const ALIAS_INDEX = new Map<string, string>();
+for (const [code, aliases] of Object.entries(COUNTRY_ALIASES)) {
+  ALIAS_INDEX.set(code, code);
+  for (const alias of aliases) ALIAS_INDEX.set(normalizeName(alias), code);
+}
+
+/**
+ * يحوّل اسم الدولة كما ورد في المستند إلى رمز ISO من حرفين، أو null إذا لم يتم التعرف عليه.
+ */
+export const resolveCountryCode = (country?: string): string | null => {
+  if (!country) return null;
+  return ALIAS_INDEX.get(normalizeName(country)) ?? null;
+};
+
+export const getCountryName = (code: string): string => COUNTRY_NAMES[code] ?? code;
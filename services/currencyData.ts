@@ -0,0 +1,77 @@
+// العملات الشائعة في الفواتير التجارية مع صيغها في المستندات (رموز، أسماء إنجليزية وعربية) ورمز ISO 4217
+const CURRENCY_ALIASES: Record<string, string[]> = {
+  AED: ['DIRHAM', 'DIRHAMS', 'UAE DIRHAM', 'DHS', 'درهم', 'درهم إماراتي', 'درهم اماراتي'],
+  BHD: ['BAHRAINI DINAR', 'دينار بحريني'],
+  CHF: ['SWISS FRANC', 'SWISS FRANCS', 'فرنك سويسري'],
+  CNY: ['RMB', 'YUAN', 'RENMINBI', 'CHINESE YUAN', 'CN¥', '元', 'يوان', 'يوان صيني'],
+  EGP: ['EGYPTIAN POUND', 'E£', 'جنيه مصري', 'جنيه'],
+  EUR: ['EURO', 'EUROS', '€', 'يورو'],
+  GBP: ['POUND STERLING', 'BRITISH POUND', 'STERLING', '£', 'جنيه إسترليني', 'جنيه استرليني'],
+  HKD: ['HONG KONG DOLLAR', 'HK$', 'دولار هونغ كونغ'],
+  INR: ['INDIAN RUPEE', 'RUPEE', 'RUPEES', 'RS', '₹', 'روبية', 'روبية هندية'],
+  IQD: ['IRAQI DINAR', 'دينار عراقي'],
+  JOD: ['JORDANIAN DINAR', 'دينار أردني', 'دينار اردني'],
+  JPY: ['JAPANESE YEN', 'YEN', '円', 'ين', 'ين ياباني'],
+  KRW: ['KOREAN WON', 'WON', '₩', 'وون'],
+  KWD: ['KUWAITI DINAR', 'دينار كويتي'],
+  MYR: ['MALAYSIAN RINGGIT', 'RINGGIT', 'RM', 'رينغيت'],
+  OMR: ['OMANI RIAL', 'ريال عماني'],
+  PKR: ['PAKISTANI RUPEE', 'روبية باكستانية'],
+  QAR: ['QATARI RIYAL', 'ريال قطري'],
+  SAR: ['SAUDI RIYAL', 'SR', 'ريال سعودي', 'ريال'],
+  SGD: ['SINGAPORE DOLLAR', 'S$', 'دولار سنغافوري'],
+  THB: ['THAI BAHT', 'BAHT', '฿', 'بات'],
+  TRY: ['TURKISH LIRA', 'LIRA', 'TL', '₺', 'ليرة تركية', 'ليرة'],
+  USD: ['US DOLLAR', 'US DOLLARS', 'U.S. DOLLARS', 'DOLLAR', 'DOLLARS', 'US$', '$', 'دولار', 'دولار أمريكي', 'دولار امريكي'],
+  VND: ['VIETNAMESE DONG', 'DONG', '₫', 'دونغ'],
+  YER: ['YEMENI RIAL', 'ريال يمني'],
+};
+
+// عدد الخانات العشرية حسب ISO 4217 للعملات التي تختلف عن خانتين
+const CURRENCY_DECIMALS: Record<string, number> = {
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, OMR: 3,
+  JPY: 0, KRW: 0, VND: 0,
+};
+
+const normalizeName = (value: string) => value.trim().toUpperCase().replace(/[.\s]+$/g, '').replace(/\s+/g, ' ');
+
+const ALIAS_INDEX = new Map<string, string>();
+for (const [code, aliases] of Object.entries(CURRENCY_ALIASES)) {
+  ALIAS_INDEX.set(code, code);
+  for (const alias of aliases) ALIAS_INDEX.set(normalizeName(alias), code);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// كل اسم يجب أن يكون كلمة مستقلة حتى لا تطابق "ين" داخل "خمسين" أو "RS" داخل كلمة أخرى؛
+// الأسماء العربية تقبل أداة التعريف المتصلة (مثل "بالدولار") وصيغ الجمع والتنوين
+const aliasPattern = (alias: string): RegExp => {
+  const isArabic = /^[\u0600-\u06FF]/.test(alias);
+  const before = /^\p{L}/u.test(alias) ? `(?<!\\p{L})${isArabic ? '(?:وال|بال|ال)?' : ''}` : '';
+  const after = /\p{L}$/u.test(alias) ? `${isArabic ? '(?:ات|اً|ًا)?' : ''}(?!\\p{L})` : '';
+  return new RegExp(before + escapeRegExp(alias) + after, 'u');
+};
+
+// الأطول أولاً حتى تطابق "US DOLLARS" قبل "DOLLARS" و "ريال سعودي" قبل "ريال"
+const ALIAS_PATTERNS = [...ALIAS_INDEX.keys()]
+  .sort((a, b) => b.length - a.length)
+  .map(alias => ({ code: ALIAS_INDEX.get(alias)!, pattern: aliasPattern(alias) }));
+
+/**
+ * يحوّل العملة كما وردت في المستند إلى رمز ISO 4217، أو null إذا لم يتم التعرف عليها.
+ */
+export const resolveCurrencyCode = (currency?: string): string | null => {
+  if (!currency) return null;
+  return ALIAS_INDEX.get(normalizeName(currency)) ?? null;
+};
+
+/**
+ * يبحث عن عملة مذكورة داخل نص المبلغ (مثل "USD 50,000.00" أو "50,000 دولار").
+ */
+export const findCurrencyInText = (text?: string): string | null => {
+  if (!text) return null;
+  const upper = text.toUpperCase();
+  return ALIAS_PATTERNS.find(({ pattern }) => pattern.test(upper))?.code ?? null;
+};
+
+export const getCurrencyDecimals = (code?: string): number => (code && code in CURRENCY_DECIMALS ? CURRENCY_DECIMALS[code] : 2);
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { classifyByKeywords } from './documentTypeService';
+
+describe('classifyByKeywords', () => {
+  it('يصنف بالعنوان الصريح', () => {
+    expect(classifyByKeywords('COMMERCIAL INVOICE\nNo. 77')).toBe('commercialInvoice');
+    expect(classifyByKeywords('PROFORMA INVOICE\nValid until 2024-04-01')).toBe('proformaInvoice');
+    expect(classifyByKeywords('بوليصة الشحن رقم 123')).toBe('billOfLading');
+  });
+
+  it('يصنف بعبارتين مساندتين دون عنوان', () => {
+    expect(classifyByKeywords('To whom it may concern,\nWe hereby confirm that the account below is held with us.')).toBe('bankLetter');
+    expect(classifyByKeywords('Port of loading: Ningbo\nNotify party: ACME')).toBe('billOfLading');
+  });
+
+  it('لا يصنف بعبارة مساندة واحدة', () => {
+    expect(classifyByKeywords('Payment for invoice 77, account details below.')).toBeNull();
+    expect(classifyByKeywords('Thank you for your business.')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { DocumentDetailKey, DocumentType, ExtractedData, FieldValidation } from '../types';
+import { normalizeForComparison, similarity } from './reconciliationService';
+
+// الحقول الإضافية المطلوبة من كل نوع مستند
+export const DOCUMENT_TYPE_FIELDS: Record<DocumentType, DocumentDetailKey[]> = {
+  commercialInvoice: [],
+  proformaInvoice: ['validUntil'],
+  billOfLading: ['billOfLadingNumber', 'consignee', 'notifyParty', 'vesselName', 'portOfLoading', 'portOfDischarge'],
+  packingList: ['consignee', 'packageCount', 'grossWeight', 'netWeight'],
+  bankLetter: ['letterheadBank', 'letterReference', 'letterDate', 'signatory'],
+  other: [],
+};
+
+// عبارات تدل على نوع المستند: العناوين الصريحة (وزن 3) والعبارات المساندة (وزن 1)
+// وزن "pro forma" يرجح الفاتورة المبدئية على التجارية رغم ورود كلمة invoice في كلتيهما
+const TYPE_KEYWORDS: [DocumentType, [RegExp, number][]][] = [
+  ['proformaInvoice', [[/pro[\s-]?forma/i, 3], [/فاتورة (مبدئية|أولية|اولية)/, 3]]],
+  ['commercialInvoice', [[/commercial invoice/i, 3], [/فاتورة تجارية/, 3], [/\binvoice\b/i, 1], [/فاتورة/, 1]]],
+  ['billOfLading', [[/bill of lading/i, 3], [/بوليصة (الشحن|شحن)/, 3], [/port of (loading|discharge)/i, 1], [/notify party/i, 1], [/ميناء (الشحن|التفريغ)/, 1]]],
+  ['packingList', [[/packing list/i, 3], [/قائمة (التعبئة|تعبئة)/, 3], [/(gross|net) weight/i, 1], [/الوزن (القائم|الصافي)/, 1]]],
+  ['bankLetter', [
+    [/(account|bank) (confirmation|reference) letter/i, 3],
+    [/(خطاب|شهادة) (تأكيد|تعريف) (حساب|بنكي)/, 3],
+    [/to whom it may concern/i, 1],
+    [/we (hereby )?confirm that/i, 1],
+    [/إلى من يهمه الأمر/, 1],
+    [/نشهد (بأن|أن)/, 1],
+  ]],
+];
+
+// كلمة مساندة واحدة (مثل invoice في مرجع خطاب بنكي) لا تكفي؛ يلزم عنوان صريح أو عبارتان مساندتان
+const HEADING_WEIGHT = 3;
+const MIN_SUPPORTING_SCORE = 2;
+
+/**
+ * تصنيف محلي للنصوص بالكلمات المفتاحية: النوع الأعلى مجموعاً، أو null إذا لم تكفِ الأدلة
+ * فيُترك التصنيف للمزود.
+ */
+export const classifyByKeywords = (text: string): DocumentType | null => {
+  let best: { type: DocumentType; score: number } | null = null;
+  for (const [type, patterns] of TYPE_KEYWORDS) {
+    const score = patterns.reduce((sum, [pattern, weight]) => sum + (pattern.test(text) ? weight : 0), 0);
+    const hasHeading = patterns.some(([pattern, weight]) => weight >= HEADING_WEIGHT && pattern.test(text));
+    if ((hasHeading || score >= MIN_SUPPORTING_SCORE) && (!best || score > best.score)) best = { type, score };
+  }
+  return best?.type ?? null;
+};
+
+export const isDocumentType = (value: unknown): value is DocumentType =>
+  typeof value === 'string' && value in DOCUMENT_TYPE_FIELDS;
+
+/**
+ * يقارن البنك في ترويسة الخطاب البنكي مع بنك المستفيد المستخرج.
+ * الترويسة من بنك مختلف مؤشر على خطاب غير صادر عن بنك المستفيد.
+ */
+export const checkLetterhead = (data: ExtractedData): FieldValidation | undefined => {
+  if (data.documentType !== 'bankLetter' || !data.bankName) return undefined;
+  const letterhead = data.details?.letterheadBank;
+  if (!letterhead) {
+    return { status: 'unverifiable', message: 'لم يُعثر على اسم بنك في ترويسة الخطاب للمقارنة.' };
+  }
+  const left = normalizeForComparison(letterhead);
+  const right = normalizeForComparison(data.bankName);
+  // الترويسة تذكر عادةً اسم البنك دون الفرع، أو العكس
+  if (left.includes(right) || right.includes(left) || similarity(letterhead, data.bankName) >= 0.85) {
+    return { status: 'valid', message: 'اسم البنك يطابق ترويسة الخطاب.' };
+  }
+  return { status: 'invalid', message: `ترويسة الخطاب صادرة عن بنك آخر (${letterhead}) غير بنك المستفيد المستخرج.` };
+};
@@ -0,0 +1,61 @@
+import { DocumentDetailKey, ExtractedData, ExtractedFieldKey, FieldEdit, OutputScript } from '../types';
+import { DOCUMENT_DETAIL_FIELDS, DOCUMENT_TYPE_LABELS, EXTRACTED_FIELDS } from '../constants';
+import { normalizeExtractedData } from './extractionService';
+import { getFieldValue } from './recordService';
+
+const REVIEWER_KEY = 'manea-pro:reviewer';
+
+export const loadReviewerName = (): string => {
+  try {
+    return localStorage.getItem(REVIEWER_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveReviewerName = (name: string) => {
+  localStorage.setItem(REVIEWER_KEY, name.trim());
+};
+
+/**
+ * يطبق تعديلاً يدوياً على حقل ويعيد نسخة جديدة من البيانات بعد تمريرها بنفس قواعد التنسيق والتحقق.
+ * يُحفظ أول قيمة أصلية للحقل، ويُحذف سجل التعديل إذا أعاد المراجع القيمة الأصلية.
+ */
+export const applyFieldEdit = <T extends ExtractedData>(data: T, key: ExtractedFieldKey, value: string, editedBy: string): T => {
+  const originalValue = data.edits?.[key]?.originalValue ?? getFieldValue(data, key);
+  const updated = normalizeExtractedData({ ...data, [key]: value.trim() }) as T;
+
+  const { [key]: _previous, ...otherEdits } = data.edits ?? {};
+  updated.edits = getFieldValue(updated, key) === originalValue
+    ? otherEdits
+    : { ...otherEdits, [key]: { originalValue, editedBy: editedBy || 'غير معروف', editedAt: Date.now() } };
+  return updated;
+};
+
+export const formatFieldEdit = (edit: FieldEdit): string =>
+  `القيمة الأصلية: ${edit.originalValue || '(فارغة)'} — عدّلها ${edit.editedBy} في ${new Date(edit.editedAt).toLocaleString('ar')}`;
+
+/**
+ * نص الحقول بصيغة "العنوان: القيمة" للنسخ، مع تمييز الحقول المعدلة يدوياً.
+ * نوع المستند وحقوله الخاصة تأتي بعد البيانات المصرفية. الكتابة اللاتينية تستبدل الحقول التي لها صيغة لاتينية.
+ */
+export const formatFieldsForCopy = (data: ExtractedData, script: OutputScript = 'original'): string =>
+  [
+    ...EXTRACTED_FIELDS.map(({ key, label }) => {
+      const value = getFieldValue(data, key, script);
+      // Format: Label on one line, Value on next line
+      return value ? `${label}${data.edits?.[key] ? ' (معدّل يدوياً)' : ''}:\n${value}` : null;
+    }),
+    data.documentType && data.documentType !== 'other' ? `نوع المستند:\n${DOCUMENT_TYPE_LABELS[data.documentType].label}` : null,
+    ...listDocumentDetails(data).map(({ label, value }) => `${label}:\n${value}`),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+/**
+ * الحقول الخاصة بنوع المستند غير الفارغة، بترتيب العرض.
+ */
+export const listDocumentDetails = (data: ExtractedData): { key: DocumentDetailKey; label: string; value: string }[] =>
+  (Object.keys(DOCUMENT_DETAIL_FIELDS) as DocumentDetailKey[])
+    .filter(key => data.details?.[key])
+    .map(key => ({ key, label: DOCUMENT_DETAIL_FIELDS[key].label, value: data.details![key]! }));
@@ -0,0 +1,123 @@
+import { utils, writeFile } from 'xlsx';
+import { AddressParts, OutputScript, ProcessableFile, ProcessingStatus } from '../types';
+import { ADDRESS_PART_LABELS, DOCUMENT_TYPE_LABELS, EXTRACTED_FIELDS } from '../constants';
+import { formatFieldEdit, listDocumentDetails } from './editService';
+import { formatPageRange, getDocumentType, getFieldValue, getRecordName } from './recordService';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+const STATUS_LABELS: Record<ProcessingStatus, string> = {
+  pending: 'قيد الانتظار',
+  processing: 'جاري المعالجة',
+  done: 'تم',
+  error: 'خطأ',
+};
+
+// المزودات ذات التسمية الخاصة؛ البيانات التجريبية تُعلَّم صراحة حتى لا تُعامل كبيانات مستخرجة
+const EXTRACTED_BY_LABELS: Record<string, string> = {
+  rules: 'قواعد محلية / Local rules',
+  local: 'بيانات تجريبية وليست من المستند / Demo data',
+};
+
+const describeExtractedBy = (extractedBy?: string): string => (extractedBy ? EXTRACTED_BY_LABELS[extractedBy] ?? extractedBy : '');
+
+const describeEdits = (pf: ProcessableFile): string =>
+  EXTRACTED_FIELDS
+    .filter(({ key }) => pf.data?.edits?.[key])
+    .map(({ key, label }) => `${label}: ${formatFieldEdit(pf.data!.edits![key]!)}`)
+    .join('\n');
+
+// الأعمدة الثابتة حول حقول البيانات المستخرجة، بعنوان عربي / إنجليزي كما في الجدول
+const COLUMNS: { label: string; value: (pf: ProcessableFile, script: OutputScript) => string }[] = [
+  { label: 'اسم الملف / File Name', value: pf => getRecordName(pf) },
+  { label: 'الصفحات / Pages', value: pf => formatPageRange(pf.data?.pages) },
+  { label: 'الملف الأصلي / Source Container', value: pf => pf.parent?.name ?? '' },
+  { label: 'الحالة / Status', value: pf => STATUS_LABELS[pf.status] },
+  { label: 'الخطأ / Error', value: pf => pf.error ?? '' },
+  { label: 'نوع المستند / Document Type', value: pf => { const type = getDocumentType(pf); return type ? DOCUMENT_TYPE_LABELS[type].label : ''; } },
+  ...EXTRACTED_FIELDS.map(({ key, label, labelEn }) => ({ label: `${label} / ${labelEn}`, value: (pf: ProcessableFile, script: OutputScript) => pf.data ? getFieldValue(pf.data, key, script) : '' })),
+  { label: 'رمز الدولة / Country Code', value: pf => pf.data?.countryCode ?? '' },
+  ...(Object.keys(ADDRESS_PART_LABELS) as (keyof AddressParts)[]).map(part => ({
+    label: `${ADDRESS_PART_LABELS[part].label} / ${ADDRESS_PART_LABELS[part].labelEn}`,
+    value: (pf: ProcessableFile) => pf.data?.addressParts?.[part] ?? '',
+  })),
+  { label: 'وصف البضاعة / Goods Description', value: pf => pf.data?.goodsDescription ?? '' },
+  { label: 'رموز HS المرشحة / Candidate HS Codes', value: pf => (pf.data?.hsCodes ?? []).map(s => `${s.code} ${s.description}`).join('\n') },
+  { label: 'تفاصيل المستند / Document Details', value: pf => pf.data ? listDocumentDetails(pf.data).map(d => `${d.label}: ${d.value}`).join('\n') : '' },
+  { label: 'معلومات إضافية / Company Info', value: pf => pf.data?.companyInfo ?? '' },
+  { label: 'المصادر / Sources', value: pf => (pf.data?.sources ?? []).map(s => `${s.title} (${s.uri})`).join('\n') },
+  { label: 'الحقول المعدلة يدوياً / Manually Edited Fields', value: pf => describeEdits(pf) },
+  { label: 'طريقة الاستخراج / Extracted By', value: pf => describeExtractedBy(pf.data?.extractedBy) },
+];
+
+// القيم المستخرجة غير موثوقة؛ خلية CSV التي تبدأ بأحد هذه الرموز ينفذها برنامج الجداول كصيغة.
+// ملفات XLSX لا تحتاج ذلك لأن aoa_to_sheet يحفظ النصوص كخلايا نصية
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const neutralizeFormula = (cell: string) => (FORMULA_PREFIX.test(cell) ? `'${cell}` : cell);
+
+const toRows = (files: ProcessableFile[], script: OutputScript): string[][] => [
+  COLUMNS.map(c => c.label),
+  ...files.map(pf => COLUMNS.map(c => c.value(pf, script))),
+];
+
+const escapeCsvCell = (cell: string) => (/[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // التأجيل حتى لا يُلغى تنزيل الملفات الكبيرة في بعض المتصفحات
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * يصدّر جميع ملفات الدفعة (بما فيها الفاشلة وغير المعالجة) إلى ملف CSV أو XLSX أو JSON.
+ * ملف JSON يحتوي الكتابتين دائماً، و CSV/XLSX بالكتابة المختارة.
+ */
+export const exportBatch = (files: ProcessableFile[], format: ExportFormat, script: OutputScript = 'original') => {
+  const baseName = `manea-pro-${new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')}`;
+
+  if (format === 'json') {
+    const records = files.map(pf => ({
+      fileName: pf.file.name,
+      record: pf.record ?? null,
+      parent: pf.parent?.name ?? null,
+      pages: pf.data?.pages ?? null,
+      status: pf.status,
+      error: pf.error ?? null,
+      documentType: getDocumentType(pf) ?? null,
+      data: Object.fromEntries([...EXTRACTED_FIELDS.map(f => f.key), 'goodsDescription' as const].map(key => [key, pf.data?.[key] ?? ''])),
+      latin: pf.data?.latin ?? {},
+      countryCode: pf.data?.countryCode ?? null,
+      addressParts: pf.data?.addressParts ?? {},
+      details: pf.data?.details ?? {},
+      hsCodes: pf.data?.hsCodes ?? [],
+      companyInfo: pf.data?.companyInfo ?? null,
+      companyReport: pf.data?.companyReport ?? null,
+      sources: pf.data?.sources ?? [],
+      edits: pf.data?.edits ?? {},
+      extractedBy: pf.data?.extractedBy ?? null,
+    }));
+    downloadBlob(new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+    return;
+  }
+
+  const rows = toRows(files, script);
+
+  if (format === 'csv') {
+    // BOM حتى يتعرف Excel على الترميز UTF-8 ويعرض النصوص العربية بشكل صحيح
+    const csv = '\uFEFF' + rows.map(row => row.map(cell => escapeCsvCell(neutralizeFormula(cell))).join(',')).join('\r\n');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  const worksheet = utils.aoa_to_sheet(rows);
+  worksheet['!cols'] = COLUMNS.map(() => ({ wch: 28 }));
+  const workbook = utils.book_new();
+  workbook.Workbook = { Views: [{ RTL: true }] };
+  utils.book_append_sheet(workbook, worksheet, 'البيانات المستخرجة');
+  writeFile(workbook, `${baseName}.xlsx`);
+};
@@ -0,0 +1,210 @@
+import { CompanyInfoResult, DocumentContent, DocumentSplitMode, DocumentType, ExtractedData } from '../types';
+import { validateExtractedData } from './validationService';
+import { readCache, writeCache } from './cacheService';
+import { isReportParseError } from './companyReportService';
+import { normalizeForComparison } from './reconciliationService';
+import { getEnrichmentProvider, getExtractionProvider } from './providerRegistry';
+import { extractFromText, isCompleteExtraction, ruleBasedProvider } from './ruleBasedExtractor';
+import { classifyByKeywords } from './documentTypeService';
+import { isAmbiguousAmount, normalizeIncoterms, parseAmount } from './invoiceService';
+import { findCurrencyInText, resolveCurrencyCode } from './currencyData';
+import { mergeHsCodes } from './restrictedGoodsService';
+import { getCountryName, resolveCountryCode } from './countryData';
+import { parseAddress, resolveCityName, resolveProvinceName } from './addressService';
+import { transliterateFields } from './transliterationService';
+import { describeServiceError, getErrorStatus, isAbortError, isRetryableError, RetryOptions, withRetry } from './retryService';
+
+export interface RequestOptions {
+  fileHash?: string; // بصمة SHA-256 لمحتوى الملف، تُستخدم كمفتاح للذاكرة المؤقتة
+  forceRefresh?: boolean; // تجاهل النتيجة المخزنة وإرسال طلب جديد
+  localFirstPass?: boolean; // للملفات النصية: الاكتفاء بالاستخراج المحلي إذا وجد كل الحقول الأساسية
+  onRetry?: RetryOptions['onRetry']; // يُستدعى قبل كل إعادة محاولة (مثلاً لإبطاء الطابور عند تجاوز حد الطلبات)
+  signal?: AbortSignal; // إلغاء الطلب؛ يُرمى AbortError ولا يُستخدم البديل المحلي
+  splitMode?: DocumentSplitMode; // تقسيم المستند إلى سجلات (الافتراضي: سجل لكل مستفيد)
+  documentType?: DocumentType; // نوع المستند من classifyDocument، يحدد مخطط الاستخراج
+}
+
+/**
+ * يطبق قواعد التنسيق الموحدة على البيانات المستخرجة أياً كان المزود.
+ */
+export const normalizeExtractedData = (data: ExtractedData): ExtractedData => {
+  // تطبيق قواعد التنسيق المطلوبة (Capitalization)
+  if (data.beneficiaryName) {
+    // Format beneficiaryName: remove special characters, keep letters, numbers, and spaces
+    // Use \p{L} for Unicode letters and \s for whitespace
+    data.beneficiaryName = data.beneficiaryName.replace(/[^0-9\p{L}\s]/gu, '').toUpperCase();
+  }
+
+  // تنسيق رقم الحساب: إزالة المسافات والفواصل والشرطات
+  if (data.accountNumber) {
+    data.accountNumber = data.accountNumber.replace(/[\s\-\_]/g, '');
+  }
+
+  if (data.country) data.country = data.country.toUpperCase();
+  if (data.province) data.province = data.province.toUpperCase();
+  if (data.city) data.city = data.city.toUpperCase();
+  if (data.address) data.address = data.address.toUpperCase();
+
+  // توحيد الدولة إلى رمز ISO 3166-1 واسمها المعتمد، والمقاطعة والمدينة إلى أسمائها في الدليل المحلي
+  const countryCode = resolveCountryCode(data.country) ?? undefined;
+  data.countryCode = countryCode;
+  if (countryCode) data.country = getCountryName(countryCode);
+  if (data.province) data.province = resolveProvinceName(data.province, countryCode) ?? data.province;
+  if (data.city) data.city = resolveCityName(data.city, countryCode) ?? data.city;
+  data.addressParts = data.address ? parseAddress(data.address, countryCode) : undefined;
+
+  // صيغة لاتينية للاسم والبنك والعنوان المكتوبة بالعربية أو الصينية، مع إبقاء الكتابة الأصلية في الحقل نفسه
+  data.latin = transliterateFields(data);
+
+  // معالجة رمز السويفت (SWIFT Code Logic)
+  if (data.swiftCode) {
+    let code = data.swiftCode.trim().toUpperCase();
+    // إذا كان طول الرمز 8 خانات، نضيف XXX
+    if (code.length === 8) {
+      code += 'XXX';
+    }
+    data.swiftCode = code;
+  }
+
+  // حقول الفاتورة: المبلغ رقم، والعملة رمز ISO 4217 (قد ترد مع المبلغ أو كرمز مثل $ أو باسمها)
+  // المبلغ قد يصل نصاً من التعديل اليدوي أو من المزود
+  const rawAmount: unknown = data.amount;
+  const currency = data.currency?.trim();
+  data.currency = currency
+    ? resolveCurrencyCode(currency) ?? findCurrencyInText(currency) ?? currency.toUpperCase()
+    : (typeof rawAmount === 'string' && findCurrencyInText(rawAmount)) || undefined;
+  // العملة تحدد قراءة المبالغ مثل 50.000، فتُحسم قبل المبلغ
+  data.amount = parseAmount(rawAmount, data.currency);
+  if (data.incoterms) data.incoterms = normalizeIncoterms(data.incoterms);
+  if (data.invoiceNumber) data.invoiceNumber = data.invoiceNumber.trim();
+  if (data.buyerName) data.buyerName = data.buyerName.trim().toUpperCase();
+
+  // رموز HS: اقتراحات المزود أولاً ثم الجدول المحلي لوصف البضاعة
+  data.hsCodes = mergeHsCodes(data.hsCodes, data.goodsDescription);
+
+  // التحقق من صحة الحقول بعد التنسيق (IBAN و SWIFT والعملة)
+  data.validation = validateExtractedData(data);
+  if (isAmbiguousAmount(rawAmount, data.currency)) {
+    data.validation.amount = { status: 'unverifiable', message: `المبلغ "${rawAmount}" يحتمل قراءتين (عشري أو بفاصل آلاف) ولم تُحدد العملة؛ أدخل المبلغ يدوياً.` };
+  }
+
+  return data;
+};
+
+/**
+ * يحدد نوع المستند: محلياً بالكلمات المفتاحية للنصوص، وإلا عبر المزود إن كان يدعم التصنيف.
+ * فشل التصنيف لا يوقف المعالجة؛ يُستخدم عندها المخطط العام ('other').
+ */
+export const classifyDocument = async (content: DocumentContent, { fileHash, forceRefresh = false, onRetry, signal }: RequestOptions = {}): Promise<DocumentType> => {
+  const localType = content.kind !== 'inline' ? classifyByKeywords(content.text) : null;
+  if (localType) return localType;
+
+  const provider = getExtractionProvider();
+  if (!provider.classify || (provider.isAvailable && !provider.isAvailable())) return 'other';
+
+  const cacheKey = fileHash ? `classify:${fileHash}:${provider.id}:${provider.model}:v${provider.promptVersion}` : null;
+  if (cacheKey && !forceRefresh) {
+    const cached = readCache<DocumentType>(cacheKey);
+    if (cached) return cached;
+  }
+
+  try {
+    const documentType = await withRetry(() => provider.classify!(content, signal), { onRetry, signal });
+    if (cacheKey) writeCache(cacheKey, documentType);
+    return documentType;
+  } catch (e) {
+    signal?.throwIfAborted();
+    if (isAbortError(e)) throw e;
+    console.warn(`${provider.label} classification failed, using the generic schema:`, e);
+    return 'other';
+  }
+};
+
+/**
+ * يستخرج سجلاً واحداً أو أكثر من المستند (سجل لكل مستفيد أو صفحة أو قسم حسب splitMode).
+ */
+export const extractDataFromFile = async (content: DocumentContent, { fileHash, forceRefresh = false, localFirstPass = false, onRetry, signal, splitMode = 'auto', documentType = 'other' }: RequestOptions = {}): Promise<ExtractedData[]> => {
+  const provider = getExtractionProvider();
+  const cacheKey = fileHash ? `extract:${fileHash}:${provider.id}:${provider.model}:v${provider.promptVersion}:${splitMode}:${documentType}` : null;
+  if (cacheKey && !forceRefresh) {
+    const cached = readCache<ExtractedData[]>(cacheKey);
+    if (cached) return cached;
+  }
+
+  // الاستخراج المحلي للنصوص: تمرير أول سريع، أو بديل عند غياب مفتاح API أو فشل النموذج
+  // (لملفات PDF المختلطة يُستخدم نص الصفحات النصية كبديل فقط لأن الصفحات الممسوحة لا تُقرأ محلياً)
+  const localResult = content.kind !== 'inline' && provider.id !== ruleBasedProvider.id ? extractFromText(content.text) : null;
+  const canFallBack = !!localResult && !!(localResult.accountNumber || localResult.beneficiaryName);
+  const useLocal = (result: ExtractedData) => [normalizeExtractedData({ ...result, documentType, extractedBy: ruleBasedProvider.id })];
+
+  // لا تُحفظ في الذاكرة المؤقتة: المفتاح خاص بنتيجة المزود، والاستخراج المحلي سريع أصلاً
+  if (localResult && localFirstPass && content.kind === 'text' && isCompleteExtraction(localResult)) {
+    return useLocal(localResult);
+  }
+
+  if (provider.isAvailable && !provider.isAvailable()) {
+    if (canFallBack) return useLocal(localResult!);
+    throw new Error(`المزود ${provider.label} غير متاح حالياً (لم يتم ضبط مفتاح API). اختر مزوداً آخر أو استخدم ملفاً نصياً للاستخراج المحلي.`);
+  }
+
+  let data: ExtractedData[];
+  try {
+    const records = await withRetry(() => provider.extract(content, { signal, splitMode, documentType }), { onRetry, signal });
+    data = records.map(record => normalizeExtractedData({ ...record, documentType, extractedBy: provider.id }));
+  } catch (e) {
+    // بعض أخطاء SDK عند الإلغاء لا تحمل اسم AbortError
+    signal?.throwIfAborted();
+    if (isAbortError(e)) throw e;
+    if (!canFallBack) throw new Error(describeServiceError(e));
+    console.warn(`${provider.label} extraction failed, falling back to local rules:`, e);
+    // لا نحفظ نتيجة البديل في الذاكرة المؤقتة حتى يُعاد المحاولة مع النموذج لاحقاً
+    return useLocal(localResult!);
+  }
+
+  if (cacheKey) writeCache(cacheKey, data);
+  return data;
+};
+
+/**
+ * لا يرمي أخطاء (عدا الإلغاء): عند الفشل يعيد رسالة للعرض في info مع تفاصيل الخطأ في error لإتاحة إعادة المحاولة.
+ */
+export const getCompanyInfo = async (companyName: string, bankName: string, goodsDescription?: string, swiftCode?: string, { forceRefresh = false, onRetry, signal }: RequestOptions = {}): Promise<CompanyInfoResult> => {
+  if (!companyName || companyName.trim() === '') {
+    return { info: "لم يتم توفير اسم للبحث.", sources: [] };
+  }
+
+  const provider = getEnrichmentProvider();
+  // المفتاح يشمل وصف البضاعة ورمز السويفت لأن التقرير يتضمن صياغة مختصرة للبضاعة ومطابقة البنك مع الرمز
+  const cacheKey = `enrich:${[companyName, bankName, goodsDescription || '', swiftCode || ''].map(normalizeForComparison).join('|')}:${provider.id}:${provider.model}:v${provider.promptVersion}`;
+  if (!forceRefresh) {
+    const cached = readCache<CompanyInfoResult>(cacheKey);
+    if (cached) return cached;
+  }
+
+  try {
+    const result = await withRetry(() => provider.enrich(companyName, bankName, goodsDescription, swiftCode, signal), { onRetry, signal });
+    if (!result.info) {
+      return { info: "لم يتم العثور على معلومات إضافية.", sources: result.sources };
+    }
+    writeCache(cacheKey, result);
+    return result;
+  } catch (e: any) {
+    signal?.throwIfAborted();
+    if (isAbortError(e)) throw e;
+    console.error(`Failed to get company info from ${provider.label}:`, e);
+    // الاستجابة وصلت لكن بتنسيق غير صالح؛ ليست مشكلة اتصال، وقد تنجح إعادة المحاولة
+    if (isReportParseError(e)) {
+      return {
+        info: 'تعذر قراءة تقرير الشركة لأن الخدمة أعادت استجابة بتنسيق غير متوقع. يمكنك إعادة المحاولة.',
+        sources: [],
+        error: { message: e.message, retryable: true },
+      };
+    }
+    // Provide a user-friendly message for external service issues
+    return {
+      info: `فشل في الحصول على معلومات إضافية (خطأ في الاتصال بخدمة البحث). قد يكون السبب مشكلة في الشبكة أو تجاوزًا لمعدل الاستخدام.`,
+      sources: [],
+      error: { message: describeServiceError(e), retryable: isRetryableError(e), status: getErrorStatus(e) },
+    };
+  }
+};
@@ -0,0 +1,7 @@
+/**
+ * يحسب بصمة SHA-256 لمحتوى الملف بصيغة سداسية عشرية.
+ */
+export const computeFileHash = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,129 @@
+import { normalizeForComparison } from './reconciliationService';
+
+// دليل جغرافي مختصر مدمج للعمل دون اتصال: المقاطعات/الولايات ومدنها الرئيسية في الدول الأكثر وروداً في المستندات.
+// كل اسم بصيغة "الاسم المعتمد|صيغة بديلة|..."، والاسم المعتمد بأحرف كبيرة كبقية حقول العنوان.
+const GAZETTEER: Record<string, { province: string; cities: string[] }[]> = {
+  CN: [
+    { province: 'GUANGDONG|广东|قوانغدونغ', cities: ['GUANGZHOU|CANTON|广州|قوانغتشو', 'SHENZHEN|深圳|شنتشن', 'DONGGUAN|东莞', 'FOSHAN|佛山', 'ZHUHAI|珠海', 'SHANTOU|汕头', 'ZHONGSHAN|中山', 'HUIZHOU|惠州', 'JIANGMEN|江门', 'CHAOZHOU|潮州', 'JIEYANG|揭阳'] },
+    { province: 'ZHEJIANG|浙江|تشجيانغ', cities: ['HANGZHOU|杭州', 'NINGBO|宁波|نينغبو', 'YIWU|义乌|ييوو', 'WENZHOU|温州', 'JINHUA|金华', 'TAIZHOU|台州', 'SHAOXING|绍兴', 'JIAXING|嘉兴', 'HUZHOU|湖州'] },
+    { province: 'JIANGSU|江苏', cities: ['NANJING|南京', 'SUZHOU|苏州', 'WUXI|无锡', 'CHANGZHOU|常州', 'NANTONG|南通', 'XUZHOU|徐州', 'YANGZHOU|扬州', 'KUNSHAN|昆山'] },
+    { province: 'FUJIAN|福建', cities: ['XIAMEN|AMOY|厦门', 'FUZHOU|福州', 'QUANZHOU|泉州', 'JINJIANG|晋江', 'PUTIAN|莆田', 'ZHANGZHOU|漳州'] },
+    { province: 'SHANDONG|山东', cities: ['JINAN|济南', 'QINGDAO|青岛', 'YANTAI|烟台', 'WEIFANG|潍坊', 'LINYI|临沂', 'ZIBO|淄博', 'WEIHAI|威海'] },
+    { province: 'HEBEI|河北', cities: ['SHIJIAZHUANG|石家庄', 'BAODING|保定', 'TANGSHAN|唐山', 'CANGZHOU|沧州', 'HANDAN|邯郸'] },
+    { province: 'HENAN|河南', cities: ['ZHENGZHOU|郑州', 'LUOYANG|洛阳', 'XINXIANG|新乡'] },
+    { province: 'HUBEI|湖北', cities: ['WUHAN|武汉', 'YICHANG|宜昌', 'XIANGYANG|襄阳'] },
+    { province: 'HUNAN|湖南', cities: ['CHANGSHA|长沙', 'ZHUZHOU|株洲'] },
+    { province: 'SICHUAN|四川', cities: ['CHENGDU|成都', 'MIANYANG|绵阳'] },
+    { province: 'ANHUI|安徽', cities: ['HEFEI|合肥', 'WUHU|芜湖'] },
+    { province: 'JIANGXI|江西', cities: ['NANCHANG|南昌', 'JINGDEZHEN|景德镇'] },
+    { province: 'LIAONING|辽宁', cities: ['SHENYANG|沈阳', 'DALIAN|大连'] },
+    { province: 'SHAANXI|陕西', cities: ['XIAN|XI AN|西安'] },
+    { province: 'GUANGXI|广西', cities: ['NANNING|南宁', 'GUILIN|桂林'] },
+    { province: 'BEIJING|PEKING|北京|بكين', cities: ['BEIJING|PEKING|北京|بكين'] },
+    { province: 'SHANGHAI|上海|شنغهاي', cities: ['SHANGHAI|上海|شنغهاي'] },
+    { province: 'TIANJIN|天津', cities: ['TIANJIN|天津'] },
+    { province: 'CHONGQING|重庆', cities: ['CHONGQING|重庆'] },
+  ],
+  AE: [
+    { province: 'DUBAI|دبي', cities: ['DUBAI|دبي', 'JEBEL ALI|جبل علي'] },
+    { province: 'ABU DHABI|أبوظبي|ابوظبي|أبو ظبي', cities: ['ABU DHABI|أبوظبي|ابوظبي|أبو ظبي', 'AL AIN|العين', 'MUSSAFAH|مصفح'] },
+    { province: 'SHARJAH|الشارقة', cities: ['SHARJAH|الشارقة', 'KHOR FAKKAN|خورفكان'] },
+    { province: 'AJMAN|عجمان', cities: ['AJMAN|عجمان'] },
+    { province: 'RAS AL KHAIMAH|RAK|رأس الخيمة', cities: ['RAS AL KHAIMAH|RAK|رأس الخيمة'] },
+    { province: 'FUJAIRAH|الفجيرة', cities: ['FUJAIRAH|الفجيرة'] },
+    { province: 'UMM AL QUWAIN|أم القيوين', cities: ['UMM AL QUWAIN|أم القيوين'] },
+  ],
+  SA: [
+    { province: 'RIYADH|الرياض', cities: ['RIYADH|الرياض', 'AL KHARJ|الخرج'] },
+    { province: 'MAKKAH|MECCA|مكة المكرمة', cities: ['JEDDAH|JIDDAH|جدة', 'MAKKAH|MECCA|مكة|مكة المكرمة', 'TAIF|الطائف'] },
+    { province: 'EASTERN PROVINCE|ASH SHARQIYAH|المنطقة الشرقية|الشرقية', cities: ['DAMMAM|الدمام', 'AL KHOBAR|KHOBAR|الخبر', 'JUBAIL|الجبيل', 'DHAHRAN|الظهران', 'AL AHSA|الأحساء'] },
+    { province: 'MADINAH|MEDINA|المدينة المنورة', cities: ['MADINAH|MEDINA|المدينة المنورة', 'YANBU|ينبع'] },
+    { province: 'QASSIM|القصيم', cities: ['BURAIDAH|بريدة', 'UNAIZAH|عنيزة'] },
+    { province: 'ASIR|عسير', cities: ['ABHA|أبها', 'KHAMIS MUSHAIT|خميس مشيط'] },
+  ],
+  YE: [
+    { province: 'SANAA|SANA A|صنعاء|أمانة العاصمة', cities: ['SANAA|SANA A|صنعاء'] },
+    { province: 'ADEN|عدن', cities: ['ADEN|عدن'] },
+    { province: 'TAIZ|تعز', cities: ['TAIZ|تعز'] },
+    { province: 'HODEIDAH|AL HUDAYDAH|الحديدة', cities: ['HODEIDAH|AL HUDAYDAH|الحديدة'] },
+    { province: 'HADRAMAUT|HADRAMOUT|حضرموت', cities: ['MUKALLA|AL MUKALLA|المكلا', 'SEIYUN|سيئون'] },
+    { province: 'IBB|إب', cities: ['IBB|إب'] },
+    { province: 'MARIB|مأرب', cities: ['MARIB|مأرب'] },
+  ],
+  TR: [
+    { province: 'ISTANBUL|إسطنبول|اسطنبول', cities: ['ISTANBUL|إسطنبول|اسطنبول'] },
+    { province: 'ANKARA|أنقرة', cities: ['ANKARA|أنقرة'] },
+    { province: 'IZMIR|إزمير', cities: ['IZMIR|إزمير'] },
+    { province: 'BURSA|بورصة', cities: ['BURSA|بورصة'] },
+    { province: 'GAZIANTEP|غازي عنتاب', cities: ['GAZIANTEP|غازي عنتاب'] },
+    { province: 'KONYA|قونية', cities: ['KONYA|قونية'] },
+    { province: 'MERSIN|مرسين', cities: ['MERSIN|مرسين'] },
+  ],
+  IN: [
+    { province: 'MAHARASHTRA', cities: ['MUMBAI|BOMBAY', 'PUNE', 'NAGPUR'] },
+    { province: 'DELHI|NEW DELHI|NCT OF DELHI', cities: ['NEW DELHI|DELHI'] },
+    { province: 'GUJARAT', cities: ['AHMEDABAD', 'SURAT', 'VADODARA', 'RAJKOT'] },
+    { province: 'TAMIL NADU', cities: ['CHENNAI|MADRAS', 'COIMBATORE', 'TIRUPPUR'] },
+    { province: 'KARNATAKA', cities: ['BENGALURU|BANGALORE', 'MYSURU|MYSORE'] },
+    { province: 'WEST BENGAL', cities: ['KOLKATA|CALCUTTA'] },
+    { province: 'TELANGANA', cities: ['HYDERABAD'] },
+  ],
+  MY: [
+    { province: 'KUALA LUMPUR|WILAYAH PERSEKUTUAN', cities: ['KUALA LUMPUR'] },
+    { province: 'SELANGOR', cities: ['SHAH ALAM', 'PETALING JAYA', 'KLANG', 'PORT KLANG'] },
+    { province: 'JOHOR', cities: ['JOHOR BAHRU'] },
+    { province: 'PENANG|PULAU PINANG', cities: ['GEORGE TOWN', 'BUTTERWORTH'] },
+  ],
+  VN: [
+    { province: 'HO CHI MINH CITY|HO CHI MINH', cities: ['HO CHI MINH CITY|HO CHI MINH|SAIGON'] },
+    { province: 'HANOI|HA NOI', cities: ['HANOI|HA NOI'] },
+    { province: 'HAI PHONG|HAIPHONG', cities: ['HAI PHONG|HAIPHONG'] },
+    { province: 'BINH DUONG', cities: ['THU DAU MOT', 'DI AN'] },
+  ],
+  EG: [
+    { province: 'CAIRO|القاهرة', cities: ['CAIRO|القاهرة'] },
+    { province: 'GIZA|الجيزة', cities: ['GIZA|الجيزة', '6TH OF OCTOBER|السادس من أكتوبر'] },
+    { province: 'ALEXANDRIA|الإسكندرية|الاسكندرية', cities: ['ALEXANDRIA|الإسكندرية|الاسكندرية'] },
+  ],
+};
+
+// الكلمات الملحقة بأسماء المدن والمقاطعات، تُحذف قبل البحث (مثل "SHENZHEN CITY" أو "محافظة تعز")
+const PLACE_SUFFIXES = ['CITY', 'SHI', 'PROVINCE', 'SHENG', 'PROV', 'STATE', 'EMIRATE', 'REGION', 'GOVERNORATE', 'MUNICIPALITY', 'PREFECTURE', '市', '省', 'مدينة', 'محافظة', 'إمارة', 'منطقة', 'ولاية', 'مقاطعة'];
+
+const SUFFIX_WORDS = new Set(PLACE_SUFFIXES.map(normalizeForComparison));
+
+const toKey = (value: string): string =>
+  normalizeForComparison(value.replace(/[市省]$/u, '')).split(' ').filter(word => !SUFFIX_WORDS.has(word)).join(' ');
+
+interface PlaceEntry {
+  countryCode: string;
+  province: string; // الاسم المعتمد للمقاطعة
+  city?: string; // الاسم المعتمد للمدينة (للمدن فقط)
+}
+
+const PROVINCE_INDEX = new Map<string, PlaceEntry[]>();
+const CITY_INDEX = new Map<string, PlaceEntry[]>();
+
+const addToIndex = (index: Map<string, PlaceEntry[]>, names: string, entry: PlaceEntry) => {
+  for (const name of names.split('|')) {
+    const key = toKey(name);
+    index.set(key, [...(index.get(key) ?? []), entry]);
+  }
+};
+
+for (const [countryCode, provinces] of Object.entries(GAZETTEER)) {
+  for (const { province, cities } of provinces) {
+    const provinceName = province.split('|')[0];
+    addToIndex(PROVINCE_INDEX, province, { countryCode, province: provinceName });
+    for (const city of cities) {
+      addToIndex(CITY_INDEX, city, { countryCode, province: provinceName, city: city.split('|')[0] });
+    }
+  }
+}
+
+// الدول المشمولة بالدليل؛ لا يمكن التحقق من المدن والمقاطعات خارجها
+export const hasGazetteer = (countryCode?: string | null): boolean => !!countryCode && countryCode in GAZETTEER;
+
+export const findProvinces = (name: string): PlaceEntry[] => PROVINCE_INDEX.get(toKey(name)) ?? [];
+
+export const findCities = (name: string): PlaceEntry[] => CITY_INDEX.get(toKey(name)) ?? [];
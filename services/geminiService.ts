@@ -1,7 +1,11 @@
 import { GoogleGenAI, Type, GenerateContentResponse, Part } from "@google/genai";
-import { ExtractedData } from '../types';
+import { CompanyInfoResult, DocumentContent, DocumentDetailKey, DocumentDetails, DocumentSplitMode, DocumentType, EnrichmentProvider, ExtractedData, ExtractedFieldKey, ExtractionProvider, ExtractOptions, FieldEvidenceMap } from '../types';
+import { DOCUMENT_TYPE_FIELDS, isDocumentType } from './documentTypeService';
+import { buildCompanyReport, formatCompanyReport, GroundedSegment, hasReportContent, parseRawCompanyReport } from './companyReportService';
 
-const dataExtractionSchema = {
+const MODEL_NAME = 'gemini-2.5-flash';
+
+const recordSchema = {
   type: Type.OBJECT,
   properties: {
     beneficiaryName: { type: Type.STRING, description: 'اسم المستفيد الكامل' },
@@ -13,11 +17,197 @@ const dataExtractionSchema = {
     province: { type: Type.STRING, description: 'المقاطعة أو الولاية' },
     address: { type: Type.STRING, description: 'العنوان الكامل' },
     goodsDescription: { type: Type.STRING, description: 'وصف موجز للبضائع أو الخدمات المذكورة في المستند، مثل الفواتير أو بوليصات الشحن.' },
+    invoiceNumber: { type: Type.STRING, description: 'رقم الفاتورة أو المستند' },
+    invoiceDate: { type: Type.STRING, description: 'تاريخ الفاتورة بصيغة YYYY-MM-DD' },
+    buyerName: { type: Type.STRING, description: 'اسم المشتري أو المرسل إليه (Buyer / Consignee)' },
+    amount: { type: Type.NUMBER, description: 'إجمالي المبلغ المستحق أو قيمة العقد أو القيمة الإجمالية للبضاعة، كرقم دون فواصل آلاف أو رمز عملة' },
+    currency: { type: Type.STRING, description: 'عملة المبلغ برمز ISO 4217 من 3 أحرف، مثل USD أو CNY' },
+    paymentTerms: { type: Type.STRING, description: 'شروط الدفع، مثل 30% T/T advance, 70% against B/L copy' },
+    incoterms: { type: Type.STRING, description: 'شرط التسليم (Incoterms) مع المكان المسمى، مثل FOB Shanghai' },
+    hsCodes: {
+      type: Type.ARRAY,
+      description: 'رموز النظام المنسق (HS) المرشحة لوصف البضاعة، الأرجح أولاً (ثلاثة على الأكثر)',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          code: { type: Type.STRING, description: 'رمز HS من 4 أو 6 أرقام، مثل 6402 أو 640299' },
+          description: { type: Type.STRING, description: 'وصف البند بالعربية باختصار' },
+        },
+        required: ['code', 'description'],
+      },
+    },
+    evidence: {
+      type: Type.ARRAY,
+      description: 'لكل حقل تم استخراجه: درجة الثقة والنص الأصلي الذي أُخذت منه القيمة',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING, description: 'اسم الحقل كما في المخطط، مثل accountNumber' },
+          confidence: { type: Type.NUMBER, description: 'درجة الثقة من 0 إلى 1' },
+          snippet: { type: Type.STRING, description: 'النص الحرفي من المستند الذي يحتوي القيمة' },
+          page: { type: Type.INTEGER, description: 'رقم الصفحة (لملفات PDF)' },
+        },
+        required: ['field', 'confidence', 'snippet'],
+      },
+    },
+    pageStart: { type: Type.INTEGER, description: 'أول صفحة يرد فيها هذا السجل' },
+    pageEnd: { type: Type.INTEGER, description: 'آخر صفحة يرد فيها هذا السجل' },
   },
   required: ['beneficiaryName', 'accountNumber', 'swiftCode', 'bankName', 'country']
 };
 
-export const extractDataFromFile = async (contentPart: Part): Promise<ExtractedData> => {
+const DETAIL_DESCRIPTIONS: Record<DocumentDetailKey, string> = {
+  consignee: 'المرسل إليه أو المشتري (Consignee / Buyer)',
+  notifyParty: 'جهة الإخطار (Notify Party)',
+  billOfLadingNumber: 'رقم بوليصة الشحن (B/L No.)',
+  vesselName: 'اسم السفينة ورقم الرحلة',
+  portOfLoading: 'ميناء الشحن (Port of Loading)',
+  portOfDischarge: 'ميناء التفريغ (Port of Discharge)',
+  packageCount: 'عدد الطرود أو الكراتين مع الوحدة',
+  grossWeight: 'الوزن القائم الإجمالي مع الوحدة',
+  netWeight: 'الوزن الصافي الإجمالي مع الوحدة',
+  letterheadBank: 'اسم البنك كما يظهر في ترويسة الخطاب (الشعار أو أعلى الصفحة)',
+  letterReference: 'الرقم المرجعي للخطاب',
+  letterDate: 'تاريخ الخطاب',
+  signatory: 'اسم الموقّع على الخطاب وصفته',
+  validUntil: 'تاريخ انتهاء صلاحية الفاتورة المبدئية',
+};
+
+const TYPE_INSTRUCTIONS: Record<DocumentType, string> = {
+  commercialInvoice: 'المستند فاتورة تجارية: المستفيد هو البائع (المصدّر) صاحب الحساب البنكي، والمشتري في buyerName.',
+  proformaInvoice: 'المستند فاتورة مبدئية (Proforma): المستفيد هو البائع صاحب الحساب البنكي، والمشتري في buyerName.',
+  billOfLading: 'المستند بوليصة شحن: قد لا يحتوي بيانات مصرفية، فاترك حقولها فارغة إن لم ترد. المستفيد هو الشاحن (Shipper).',
+  packingList: 'المستند قائمة تعبئة: استخرج الأوزان وعدد الطرود كما وردت مع وحداتها، والقيمة الإجمالية للبضاعة وعملتها إن ذُكرت.',
+  bankLetter: 'المستند خطاب بنكي: استخرج البنك الظاهر في ترويسة الخطاب في letterheadBank كما هو، بشكل مستقل عن بنك المستفيد المذكور في نص الخطاب.',
+  other: '',
+};
+
+// المخطط العام مع حقول إضافية حسب نوع المستند
+const getExtractionSchema = (documentType: DocumentType = 'other') => {
+  const detailKeys = DOCUMENT_TYPE_FIELDS[documentType];
+  const properties = detailKeys.length === 0 ? recordSchema.properties : {
+    ...recordSchema.properties,
+    details: {
+      type: Type.OBJECT,
+      description: 'حقول خاصة بنوع المستند',
+      properties: Object.fromEntries(detailKeys.map(key => [key, { type: Type.STRING, description: DETAIL_DESCRIPTIONS[key] }])),
+    },
+  };
+  return {
+    type: Type.OBJECT,
+    properties: {
+      records: {
+        type: Type.ARRAY,
+        description: 'سجل لكل مستفيد أو فاتورة في المستند',
+        items: { ...recordSchema, properties },
+      },
+    },
+    required: ['records'],
+  };
+};
+
+const classificationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: {
+      type: Type.STRING,
+      enum: Object.keys(DOCUMENT_TYPE_FIELDS),
+      description: 'نوع المستند',
+    },
+  },
+  required: ['documentType'],
+};
+
+// يكفي أول جزء من النص لمعرفة نوع المستند
+const CLASSIFICATION_TEXT_LIMIT = 4000;
+
+type RawExtraction = Omit<ExtractedData, 'evidence' | 'pages' | 'hsCodes'> & {
+  hsCodes?: { code: string; description: string }[];
+  evidence?: { field: string; confidence: number; snippet: string; page?: number }[];
+  pageStart?: number;
+  pageEnd?: number;
+};
+
+const SPLIT_INSTRUCTIONS: Record<DocumentSplitMode, string> = {
+  auto: 'إذا احتوى المستند على أكثر من مستفيد فأعد سجلاً منفصلاً لكل مستفيد، ولا تدمج بيانات مستفيدين مختلفين في سجل واحد.',
+  page: 'أعد سجلاً منفصلاً لكل صفحة تحتوي بيانات مصرفية، حتى لو تكرر نفس المستفيد.',
+  section: 'أعد سجلاً منفصلاً لكل قسم مستقل في المستند (كل فاتورة أو خطاب أو نموذج تحويل)، حتى لو تكرر نفس المستفيد.',
+};
+
+// تحويل مصفوفة الأدلة من استجابة النموذج إلى خريطة حسب اسم الحقل
+const toEvidenceMap = (evidence: RawExtraction['evidence'] = []): FieldEvidenceMap => {
+  const map: FieldEvidenceMap = {};
+  for (const { field, confidence, snippet, page } of evidence) {
+    if (!snippet) continue;
+    map[field as ExtractedFieldKey] = {
+      confidence: Math.min(1, Math.max(0, Number(confidence) || 0)),
+      snippet,
+      ...(page ? { page } : {}),
+    };
+  }
+  return map;
+};
+
+const toParts = (content: DocumentContent): Part[] => {
+  switch (content.kind) {
+    case 'text':
+      return [{ text: content.text }];
+    case 'inline':
+      return [{ inlineData: { mimeType: content.mimeType, data: content.data } }];
+    case 'mixed':
+      return [
+        { text: content.text },
+        { text: `الملف المرفق يحتوي الصفحات الممسوحة ضوئياً فقط من نفس المستند، وأرقامها في المستند الأصلي بالترتيب: ${content.scannedPages.join(', ')}. استخدم هذه الأرقام في evidence و pageStart و pageEnd.` },
+        { inlineData: { mimeType: content.mimeType, data: content.data } },
+      ];
+  }
+};
+
+// حذف الحقول الإضافية الفارغة
+const toDetails = (details: DocumentDetails = {}): DocumentDetails =>
+  Object.fromEntries(Object.entries(details).filter(([, value]) => value && value.trim()));
+
+const toRecord = ({ evidence, pageStart, pageEnd, details, hsCodes = [], ...data }: RawExtraction): ExtractedData => ({
+  ...data,
+  hsCodes: hsCodes.map(({ code, description }) => ({ code, description, source: 'model' })),
+  evidence: toEvidenceMap(evidence),
+  details: toDetails(details),
+  ...(pageStart ? { pages: { start: pageStart, end: Math.max(pageStart, pageEnd || pageStart) } } : {}),
+});
+
+const classifyDocument = async (content: DocumentContent, signal?: AbortSignal): Promise<DocumentType> => {
+  const aiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const sample: DocumentContent = content.kind === 'inline' ? content : { kind: 'text', text: content.text.slice(0, CLASSIFICATION_TEXT_LIMIT) };
+
+  const prompt = `
+    صنّف المستند التجاري إلى أحد الأنواع التالية:
+    commercialInvoice: فاتورة تجارية نهائية.
+    proformaInvoice: فاتورة مبدئية أو عرض سعر (Proforma).
+    billOfLading: بوليصة شحن بحري أو جوي.
+    packingList: قائمة تعبئة.
+    bankLetter: خطاب أو شهادة صادرة عن بنك لتأكيد بيانات حساب.
+    other: أي مستند آخر.
+  `;
+
+  const response = await aiClient.models.generateContent({
+    model: MODEL_NAME,
+    contents: { parts: [...toParts(sample), { text: prompt }] },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: classificationSchema,
+      abortSignal: signal,
+    },
+  });
+
+  try {
+    const { documentType } = JSON.parse(response.text?.trim() || '{}');
+    return isDocumentType(documentType) ? documentType : 'other';
+  } catch {
+    return 'other';
+  }
+};
+
+const extractDataFromFile = async (content: DocumentContent, { signal, splitMode = 'auto', documentType = 'other' }: ExtractOptions = {}): Promise<ExtractedData[]> => {
   // Always create a new instance to ensure the latest API key from the environment is used
   const aiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
@@ -26,14 +216,21 @@ export const extractDataFromFile = async (contentPart: Part): Promise<ExtractedD
     حلل المحتوى واستخرج البيانات المصرفية بدقة عالية.
     ابحث باللغتين العربية والإنجليزية.
     اترك الحقل فارغاً إذا لم تتوفر المعلومة.
+    لكل حقل غير فارغ أضف عنصراً في evidence يحتوي النص الحرفي الذي وردت فيه القيمة، ورقم الصفحة إن كان المستند PDF،
+    ودرجة ثقة واقعية (أقل من 0.7 إذا كانت الكتابة غير واضحة أو القيمة مستنتجة وليست مكتوبة صراحة).
+    ${SPLIT_INSTRUCTIONS[splitMode]}
+    ${TYPE_INSTRUCTIONS[documentType]}
+    حدد لكل سجل نطاق الصفحات (pageStart و pageEnd) إن كان المستند PDF.
+    إذا احتوى النص على علامات مثل "--- Page 3 ---" فهي أرقام صفحات المستند الأصلي.
   `;
   
   const response = await aiClient.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: { parts: [contentPart, { text: prompt }] },
+    model: MODEL_NAME,
+    contents: { parts: [...toParts(content), { text: prompt }] },
     config: {
       responseMimeType: 'application/json',
-      responseSchema: dataExtractionSchema,
+      responseSchema: getExtractionSchema(documentType),
+      abortSignal: signal,
     },
   });
 
@@ -43,97 +240,93 @@ export const extractDataFromFile = async (contentPart: Part): Promise<ExtractedD
     throw new Error("فشل في استخراج البيانات: استجابة فارغة أو غير صالحة من النموذج.");
   }
 
+  let records: RawExtraction[];
   try {
-    const data = JSON.parse(jsonText) as ExtractedData;
-
-    // تطبيق قواعد التنسيق المطلوبة (Capitalization)
-    if (data.beneficiaryName) {
-      // Format beneficiaryName: remove special characters, keep letters, numbers, and spaces
-      // Use \p{L} for Unicode letters and \s for whitespace
-      data.beneficiaryName = data.beneficiaryName.replace(/[^0-9\p{L}\s]/gu, '').toUpperCase();
-    }
-
-    // تنسيق رقم الحساب: إزالة المسافات والفواصل والشرطات
-    if (data.accountNumber) {
-      data.accountNumber = data.accountNumber.replace(/[\s\-\_]/g, '');
-    }
-
-    if (data.country) data.country = data.country.toUpperCase();
-    if (data.province) data.province = data.province.toUpperCase();
-    if (data.city) data.city = data.city.toUpperCase();
-    if (data.address) data.address = data.address.toUpperCase();
-
-    // معالجة رمز السويفت (SWIFT Code Logic)
-    if (data.swiftCode) {
-      let code = data.swiftCode.trim().toUpperCase();
-      // إذا كان طول الرمز 8 خانات، نضيف XXX
-      if (code.length === 8) {
-        code += 'XXX';
-      }
-      data.swiftCode = code;
-    }
-
-    return data;
+    records = (JSON.parse(jsonText) as { records: RawExtraction[] }).records;
   } catch (e) {
     console.error("Failed to parse JSON from Gemini:", jsonText);
     throw new Error("فشل في تحليل البيانات المستخرجة: تنسيق استجابة غير متوقع من النموذج.");
   }
+  if (!Array.isArray(records) || records.length === 0) {
+    throw new Error("لم يتم العثور على بيانات مستفيد في المستند.");
+  }
+  return records.map(toRecord);
 };
 
-export const getCompanyInfo = async (companyName: string, bankName: string, goodsDescription?: string): Promise<{ info: string; sources: { uri: string; title: string }[] }> => {
+const getCompanyInfo = async (companyName: string, bankName: string, goodsDescription?: string, swiftCode?: string, signal?: AbortSignal): Promise<CompanyInfoResult> => {
   const aiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-  if (!companyName || companyName.trim() === '') {
-    return { info: "لم يتم توفير اسم للبحث.", sources: [] };
-  }
-  
   const prompt = `
     معلومات مستخرجة من الملف:
     اسم الشركة: ${companyName}
     اسم البنك: ${bankName}
+    رمز السويفت: ${swiftCode || "غير محدد"}
     وصف البضاعة (أولي): ${goodsDescription || "غير محدد"}
 
     المطلوب:
     1. استخدم بحث Google للتحقق من الشركة والبنك والحصول على معلومات حديثة.
-    2. قم بصياغة وصف البضاعة المذكور أعلاه بشكل مختصر جداً ومباشر (كلمات قليلة فقط دون تفاصيل زائدة).
-    3. اكتب ملخصاً نصياً بسيطاً (Plain Text) ورسمياً جداً.
-    
-    التنسيق المطلوب للإجابة بالضبط (كل معلومة في سطر منفصل، بدون نجوم أو رموز):
+    2. تحقق من أن رمز السويفت يعود لهذا البنك ولفرع في نفس الموقع.
+    3. قم بصياغة وصف البضاعة المذكور أعلاه بشكل مختصر جداً ومباشر (كلمات قليلة فقط، مثال: أحذية جاهزة بمختلف أنواعها).
+    4. اذكر مؤشرات الخطر إن وجدت، مثل: شركة حديثة التأسيس، نشاط لا يتناسب مع البضاعة، عنوان سكني أو وهمي، أخبار عن احتيال أو عقوبات، بنك في دولة غير دولة الشركة.
 
-    شركة ${companyName}: [التخصص والمقر باختصار]
+    أجب بكائن JSON فقط بهذا الشكل بالضبط، دون أي نص قبله أو بعده:
+    {
+      "company": { "activity": "", "headquarters": "", "foundedYear": "", "website": "", "registration": "" },
+      "bank": { "headquarters": "", "branchLocation": "", "branchCountry": "", "swiftMatch": "match | mismatch | unknown", "swiftNote": "" },
+      "goods": { "summary": "" },
+      "redFlags": []
+    }
+
+    ملاحظات هامة:
+    - كل قيمة جملة قصيرة رسمية باللغة العربية، عدا الموقع الإلكتروني وأرقام التسجيل.
+    - registration: رقم السجل التجاري أو الرمز الائتماني الموحد أو أي إشارة للتسجيل الرسمي.
+    - branchCountry: دولة الفرع بالإنجليزية.
+    - اترك القيمة فارغة ("") إذا لم تجد المعلومة في نتائج البحث، ولا تخمن.
+    - redFlags مصفوفة جمل، وتترك فارغة إذا لم توجد مؤشرات.
+  `;
+
+  const response: GenerateContentResponse = await aiClient.models.generateContent({
+    model: MODEL_NAME,
+    contents: prompt,
+    config: {
+      // أداة البحث لا تدعم responseSchema، لذا يُطلب JSON في نص الطلب
+      tools: [{ googleSearch: {} }],
+      abortSignal: signal,
+    },
+  });
 
-    بنك ${bankName}: [نبذة وموقع البنك باختصار]
+  const text = response.text?.trim() ?? '';
+  if (!text) return { info: '', sources: [] };
 
-    البضاعة المذكورة في الفاتورة: [وصف مختصر جداً للبضاعة، مثال: أحذية جاهزة بمختلف أنواعها]
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const sources: CompanyInfoResult['sources'] = [];
+  // فهرس كل مقطع بحث في قائمة المصادر بعد استبعاد المقاطع دون رابط أو عنوان
+  const sourceIndexByChunk = new Map<number, number>();
+  (metadata?.groundingChunks || []).forEach((chunk, chunkIndex) => {
+    if (!chunk.web?.uri || !chunk.web.title) return;
+    sourceIndexByChunk.set(chunkIndex, sources.length);
+    sources.push({ uri: chunk.web.uri, title: chunk.web.title });
+  });
+  const segments: GroundedSegment[] = (metadata?.groundingSupports || [])
+    .filter(support => support.segment?.text)
+    .map(support => ({
+      text: support.segment!.text!,
+      sourceIndices: (support.groundingChunkIndices || []).flatMap(index => sourceIndexByChunk.has(index) ? [sourceIndexByChunk.get(index)!] : []),
+    }));
 
-    ملاحظة هامة:
-    - لا تستخدم رموز (*) أو (-) أو أي تنسيق markdown.
-    - التزم بالتسمية "البضاعة المذكورة في الفاتورة".
-    - اجعل المعلومات في سطور منفصلة ومرتبة.
-    - لا تكتب مقدمة أو خاتمة.
-  `;
+  const report = buildCompanyReport(parseRawCompanyReport(text), segments, swiftCode);
+  if (!hasReportContent(report)) return { info: '', sources };
+  return { info: formatCompanyReport(report, companyName, bankName), report, sources };
+};
 
-  try {
-    const response: GenerateContentResponse = await aiClient.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-    
-    const info = response.text || "لم يتم العثور على معلومات إضافية.";
-    
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources = groundingChunks
-      .map((chunk) => chunk.web)
-      .filter((web) => web?.uri && web.title)
-      .map((web) => ({ uri: web!.uri!, title: web!.title! }));
-
-    return { info, sources };
-  } catch (e: any) {
-    console.error("Failed to get company info from Gemini/Google Search:", e);
-    // Provide a user-friendly message for external service issues
-    return { info: `فشل في الحصول على معلومات إضافية (خطأ في الاتصال بخدمة البحث). قد يكون السبب مشكلة في الشبكة أو تجاوزًا لمعدل الاستخدام.`, sources: [] };
-  }
-};
\ No newline at end of file
+export const geminiProvider: ExtractionProvider & EnrichmentProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  model: MODEL_NAME,
+  // يجب زيادة رقم الإصدار عند تعديل نص الطلب أو المخطط حتى لا تُستخدم نتائج مخزنة بصيغة قديمة
+  promptVersion: 9,
+  isAvailable: () => !!process.env.API_KEY,
+  extract: extractDataFromFile,
+  classify: classifyDocument,
+  enrich: getCompanyInfo,
+};
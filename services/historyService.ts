@@ -0,0 +1,85 @@
+import { EnrichedData, HistoryEntry, ProcessingMode } from '../types';
+import { normalizeForComparison } from './reconciliationService';
+
+const DB_NAME = 'manea-pro';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+        store.createIndex('contentHash', 'contentHash');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// تنفيذ عملية واحدة على مخزن السجل وإرجاع نتيجتها كـ Promise بعد اكتمال المعاملة،
+// لأن نجاح الطلب لا يعني حفظه: المعاملة قد تُلغى بعده (مثل امتلاء مساحة التخزين)
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
+
+export const saveHistoryEntry = async (fileName: string, contentHash: string, data: EnrichedData, mode: ProcessingMode): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    fileName,
+    contentHash,
+    data,
+    mode,
+    timestamp: Date.now(),
+  };
+  await runRequest('readwrite', store => store.put(entry));
+  return entry;
+};
+
+/**
+ * يعيد جميع السجلات مرتبة من الأحدث إلى الأقدم.
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await runRequest('readonly', store => store.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const deleteHistoryEntry = (id: string) => runRequest('readwrite', store => store.delete(id));
+
+export const clearHistory = () => runRequest('readwrite', store => store.clear());
+
+export interface HistoryFilter {
+  query: string; // يبحث في اسم المستفيد ورقم الحساب والسويفت واسم الملف
+  from?: string; // YYYY-MM-DD
+  to?: string;
+}
+
+export const filterHistory = (entries: HistoryEntry[], { query, from, to }: HistoryFilter): HistoryEntry[] => {
+  const normalizedQuery = normalizeForComparison(query).replace(/\s/g, '');
+  const fromTime = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+  const toTime = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+
+  return entries.filter(entry => {
+    if (entry.timestamp < fromTime || entry.timestamp > toTime) return false;
+    if (!normalizedQuery) return true;
+    const haystack = [entry.data.beneficiaryName, entry.data.accountNumber, entry.data.swiftCode, entry.fileName]
+      .map(value => normalizeForComparison(value || '').replace(/\s/g, ''));
+    return haystack.some(value => value.includes(normalizedQuery));
+  });
+};
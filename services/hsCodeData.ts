@@ -0,0 +1,85 @@
+import { HsCodeSuggestion } from '../types';
+import { normalizeForComparison } from './reconciliationService';
+
+// بنود HS (4 أرقام) للبضائع الشائعة في الفواتير، مع كلمات دالة بالإنجليزية والعربية
+const HS_HEADINGS: { code: string; description: string; keywords: string[] }[] = [
+  { code: '0402', description: 'حليب مجفف', keywords: ['milk powder', 'powdered milk', 'حليب مجفف', 'حليب بودرة'] },
+  { code: '0901', description: 'بن (قهوة)', keywords: ['coffee', 'قهوه', 'بن'] },
+  { code: '0902', description: 'شاي', keywords: ['tea', 'شاي'] },
+  { code: '1006', description: 'أرز', keywords: ['rice', 'ارز', 'رز'] },
+  { code: '1101', description: 'دقيق القمح', keywords: ['wheat flour', 'flour', 'دقيق', 'طحين'] },
+  { code: '1507', description: 'زيت فول الصويا', keywords: ['soybean oil', 'soya oil', 'زيت صويا'] },
+  { code: '1701', description: 'سكر', keywords: ['sugar', 'سكر'] },
+  { code: '2523', description: 'إسمنت', keywords: ['cement', 'اسمنت'] },
+  { code: '3004', description: 'أدوية مهيأة للبيع بالتجزئة', keywords: ['medicine', 'medicines', 'pharmaceutical', 'tablets', 'ادويه', 'دواء'] },
+  { code: '3102', description: 'أسمدة آزوتية', keywords: ['urea', 'fertilizer', 'fertiliser', 'nitrogenous fertilizer', 'سماد', 'اسمده', 'يوريا'] },
+  { code: '3208', description: 'دهانات وورنيش', keywords: ['paint', 'paints', 'varnish', 'دهان', 'طلاء'] },
+  { code: '3401', description: 'صابون', keywords: ['soap', 'صابون'] },
+  { code: '3402', description: 'منظفات', keywords: ['detergent', 'washing powder', 'منظفات', 'مسحوق غسيل'] },
+  { code: '3901', description: 'بوليمرات الإيثيلين (حبيبات)', keywords: ['polyethylene', 'hdpe', 'ldpe', 'pe granules', 'بولي ايثيلين'] },
+  { code: '3917', description: 'أنابيب ومواسير من البلاستيك', keywords: ['pvc pipe', 'plastic pipe', 'ppr pipe', 'مواسير بلاستيك', 'انابيب بلاستيك'] },
+  { code: '3924', description: 'أدوات منزلية ومطبخ من البلاستيك', keywords: ['plastic household', 'plastic kitchenware', 'household goods', 'kitchenware', 'ادوات منزليه', 'ادوات مطبخ'] },
+  { code: '4011', description: 'إطارات مطاطية جديدة', keywords: ['tyre', 'tyres', 'tire', 'tires', 'اطارات', 'كفرات'] },
+  { code: '4202', description: 'حقائب وأمتعة', keywords: ['bag', 'bags', 'handbag', 'luggage', 'suitcase', 'حقائب', 'شنط'] },
+  { code: '4418', description: 'أبواب ونجارة خشبية للبناء', keywords: ['wooden door', 'wooden doors', 'ابواب خشب'] },
+  { code: '4802', description: 'ورق غير مطلي للكتابة والطباعة', keywords: ['paper', 'a4 paper', 'ورق'] },
+  { code: '5208', description: 'أقمشة قطنية منسوجة', keywords: ['cotton fabric', 'woven fabric', 'fabric', 'textile', 'قماش', 'اقمشه'] },
+  { code: '6109', description: 'قمصان تي شيرت وفانيلات', keywords: ['t shirt', 't shirts', 'tshirt', 'تي شيرت', 'فانيلات'] },
+  { code: '6203', description: 'ملابس رجالية', keywords: ['garments', 'clothing', 'apparel', 'trousers', 'ملابس', 'ملابس جاهزه'] },
+  { code: '6402', description: 'أحذية بنعال وأوجه من المطاط أو البلاستيك', keywords: ['footwear', 'shoes', 'slippers', 'sandals', 'sneakers', 'احذيه', 'حذاء', 'صنادل'] },
+  { code: '6907', description: 'بلاط وسيراميك', keywords: ['ceramic tiles', 'tiles', 'porcelain tiles', 'سيراميك', 'بلاط'] },
+  { code: '7005', description: 'زجاج مسطح', keywords: ['float glass', 'glass sheet', 'زجاج'] },
+  { code: '7213', description: 'قضبان حديد (حديد تسليح)', keywords: ['steel bar', 'rebar', 'reinforcing bar', 'حديد تسليح'] },
+  { code: '7308', description: 'هياكل من الحديد أو الصلب', keywords: ['steel structure', 'steel structures', 'هياكل حديد'] },
+  { code: '7323', description: 'أدوات مائدة ومطبخ من الحديد أو الصلب', keywords: ['stainless steel kitchenware', 'cookware', 'اواني طبخ'] },
+  { code: '8415', description: 'أجهزة تكييف الهواء', keywords: ['air conditioner', 'air conditioners', 'air conditioning', 'مكيفات', 'مكيف'] },
+  { code: '8418', description: 'ثلاجات ومجمدات', keywords: ['refrigerator', 'refrigerators', 'fridge', 'freezer', 'ثلاجات', 'ثلاجه'] },
+  { code: '8450', description: 'غسالات', keywords: ['washing machine', 'washing machines', 'غسالات', 'غساله'] },
+  { code: '8471', description: 'أجهزة حاسوب', keywords: ['computer', 'computers', 'laptop', 'laptops', 'حاسوب', 'كمبيوتر'] },
+  { code: '8481', description: 'صنابير وصمامات', keywords: ['valve', 'valves', 'faucet', 'taps', 'صمامات', 'محابس'] },
+  { code: '8502', description: 'مجموعات توليد الكهرباء', keywords: ['generator', 'generators', 'generating set', 'genset', 'مولدات', 'مولد'] },
+  { code: '8507', description: 'مراكم كهربائية (بطاريات)', keywords: ['battery', 'batteries', 'بطاريات', 'بطاريه'] },
+  { code: '8517', description: 'هواتف وأجهزة اتصالات', keywords: ['mobile phone', 'mobile phones', 'smartphone', 'telephone', 'هواتف', 'جوالات'] },
+  { code: '8528', description: 'أجهزة تلفزيون وشاشات', keywords: ['television', 'tv', 'monitor', 'monitors', 'تلفزيون', 'شاشات'] },
+  { code: '8539', description: 'مصابيح كهربائية', keywords: ['led lamp', 'lamps', 'bulbs', 'led', 'مصابيح', 'لمبات'] },
+  { code: '8541', description: 'خلايا وألواح شمسية', keywords: ['solar panel', 'solar panels', 'photovoltaic', 'الواح شمسيه', 'طاقه شمسيه'] },
+  { code: '8544', description: 'أسلاك وكابلات كهربائية', keywords: ['cable', 'cables', 'wire', 'wires', 'كابلات', 'اسلاك'] },
+  { code: '8703', description: 'سيارات الركوب', keywords: ['car', 'cars', 'passenger vehicle', 'سيارات', 'سياره'] },
+  { code: '8708', description: 'أجزاء ولوازم السيارات', keywords: ['auto parts', 'car parts', 'vehicle parts', 'spare parts', 'قطع غيار'] },
+  { code: '8711', description: 'دراجات نارية', keywords: ['motorcycle', 'motorcycles', 'motorbike', 'دراجات ناريه'] },
+  { code: '9403', description: 'أثاث', keywords: ['furniture', 'اثاث'] },
+  { code: '9503', description: 'ألعاب أطفال', keywords: ['toys', 'toy', 'العاب اطفال', 'العاب'] },
+];
+
+const MAX_SUGGESTIONS = 3;
+
+// لواحق الجمع المقبولة عند المطابقة حتى تطابق "drone" كلمة "drones"
+const PLURAL_SUFFIXES = ['', 'S', 'ES', 'ات'];
+
+const toWords = (value: string): string[] =>
+  // تجاهل "ال" التعريف حتى تطابق "الطائرات" كلمة "طائرات"
+  normalizeForComparison(value).split(' ').filter(Boolean).map(w => w.replace(/^ال(?=\p{L}{2})/u, ''));
+
+// تطابق كلمة أو عبارة كاملة في النص (لا جزءاً من كلمة أطول)
+export const containsTerm = (text: string, term: string): boolean => {
+  const words = toWords(text);
+  const termWords = toWords(term);
+  if (termWords.length === 0) return false;
+  return words.some((_, i) =>
+    termWords.every((tw, j) => words[i + j] !== undefined && PLURAL_SUFFIXES.some(suffix => words[i + j] === tw + suffix)),
+  );
+};
+
+/**
+ * يقترح بنود HS لوصف البضاعة من الجدول المحلي، مرتبة حسب عدد الكلمات الدالة المطابقة.
+ */
+export const suggestHsCodes = (description: string): HsCodeSuggestion[] =>
+  HS_HEADINGS
+    .map(heading => ({ heading, score: heading.keywords.filter(k => containsTerm(description, k)).length }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ heading }) => ({ code: heading.code, description: heading.description, source: 'local' }));
+
+// إزالة النقاط والمسافات من الرمز (مثل 6402.99 → 640299)
+export const normalizeHsCode = (code: string): string => code.replace(/\D/g, '').slice(0, 10);
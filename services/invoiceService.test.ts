@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatAmount, isAmbiguousAmount, normalizeIncoterms, parseAmount } from './invoiceService';
+
+describe('parseAmount', () => {
+  it('يميز فاصل الآلاف عن الفاصلة العشرية', () => {
+    expect(parseAmount('USD 50,000.00')).toBe(50000);
+    expect(parseAmount('50.000,00 EUR')).toBe(50000);
+    expect(parseAmount('1.250.000')).toBe(1250000);
+    expect(parseAmount('1,250,000')).toBe(1250000);
+    expect(parseAmount('50 000')).toBe(50000);
+    expect(parseAmount('50,5')).toBe(50.5);
+    expect(parseAmount("1'250.75")).toBe(1250.75);
+  });
+
+  it('يحسم صيغة 50.000 بعدد الخانات العشرية للعملة', () => {
+    expect(parseAmount('50.000', 'KWD')).toBe(50);
+    expect(parseAmount('50.000', 'USD')).toBe(50000);
+    expect(parseAmount('50.000')).toBeUndefined();
+    expect(isAmbiguousAmount('50.000')).toBe(true);
+    expect(isAmbiguousAmount('50.000', 'USD')).toBe(false);
+    expect(isAmbiguousAmount('50,000.00')).toBe(false);
+  });
+
+  it('يقرأ الأرقام العربية الهندية والفواصل العربية', () => {
+    expect(parseAmount('١٢٬٥٠٠٫٧٥ ريال')).toBe(12500.75);
+    expect(parseAmount('۳۰۰')).toBe(300);
+  });
+
+  it('يحافظ على الإشارة السالبة والأقواس المحاسبية', () => {
+    expect(parseAmount('-500')).toBe(-500);
+    expect(parseAmount('USD -1,250.50')).toBe(-1250.5);
+    expect(parseAmount('(500.00)')).toBe(-500);
+    expect(parseAmount('(USD 500)')).toBe(-500);
+    expect(parseAmount('500 (five hundred)')).toBe(500);
+  });
+
+  it('يعيد undefined للقيم غير الرقمية', () => {
+    expect(parseAmount('N/A')).toBeUndefined();
+    expect(parseAmount(undefined)).toBeUndefined();
+    expect(parseAmount(Number.NaN)).toBeUndefined();
+    expect(parseAmount(1234.5)).toBe(1234.5);
+  });
+});
+
+describe('formatAmount', () => {
+  it('يستخدم عدد الخانات العشرية المعتمد للعملة', () => {
+    expect(formatAmount(50000, 'USD')).toBe('50,000.00');
+    expect(formatAmount(50, 'KWD')).toBe('50.000');
+  });
+});
+
+describe('normalizeIncoterms', () => {
+  it('يوحد الرمز ويحتفظ بالمكان المسمى', () => {
+    expect(normalizeIncoterms('fob shanghai')).toBe('FOB SHANGHAI');
+    expect(normalizeIncoterms('C&F Jeddah, Incoterms 2020')).toBe('CFR JEDDAH');
+  });
+});
@@ -0,0 +1,109 @@
+import { FieldValidation } from '../types';
+import { getCurrencyDecimals, resolveCurrencyCode } from './currencyData';
+
+const INCOTERMS = ['EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP', 'DAT', 'DAF', 'DES', 'DEQ', 'DDU'];
+
+// الأرقام الهندية والفواصل العربية إلى مقابلاتها اللاتينية
+const toLatinDigits = (value: string) =>
+  value
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/٫/g, '.')
+    .replace(/٬/g, ',');
+
+// مبلغ بنقطة واحدة تليها 3 أرقام (مثل 50.000) يحتمل القراءتين: 50 بثلاث خانات عشرية أو 50000 بصيغة أوروبية
+const AMBIGUOUS_DOT_PATTERN = /^\d{1,3}\.\d{3}$/;
+
+// إشارة سالبة قبل الرقم مباشرة أو قبل رمز العملة (-500 و USD -500 و -$500)
+const MINUS_PREFIX = /[-−](?:[A-Z]{3}|\p{Sc})?$/iu;
+
+const extractNumber = (value: string): { number: string; negative: boolean } | undefined => {
+  const text = toLatinDigits(value).replace(/[\s'’]/g, '');
+  const match = text.match(/\d[\d.,]*/);
+  if (!match) return undefined;
+  const before = text.slice(0, match.index);
+  const after = text.slice(match.index! + match[0].length);
+  // الصيغة المحاسبية (500) أو (USD 500) تعني مبلغاً سالباً
+  const negative = MINUS_PREFIX.test(before) || (/\([^\d()]*$/.test(before) && /^[^\d()]*\)/.test(after));
+  return { number: match[0].replace(/[.,]$/, ''), negative };
+};
+
+/**
+ * هل يحتاج المبلغ إلى العملة لتحديد فاصله، ولم تُعرف العملة. parseAmount يعيد undefined في هذه الحالة.
+ */
+export const isAmbiguousAmount = (value: unknown, currency?: string): boolean => {
+  if (typeof value !== 'string') return false;
+  const extracted = extractNumber(value);
+  return !!extracted && AMBIGUOUS_DOT_PATTERN.test(extracted.number) && !resolveCurrencyCode(currency);
+};
+
+/**
+ * يحوّل المبلغ كما ورد في المستند إلى رقم، مع تمييز فاصل الآلاف عن الفاصلة العشرية
+ * (50,000.00 و 50.000,00 و 50 000 كلها تعطي 50000). يعيد undefined إذا لم يكن هناك رقم.
+ * الإشارة السالبة (-500) والأقواس المحاسبية ((500)) تعطي مبلغاً سالباً.
+ * صيغة 50.000 تُحسم بعدد الخانات العشرية للعملة، وتبقى دون قيمة إذا لم تُعرف العملة (انظر isAmbiguousAmount).
+ */
+export const parseAmount = (value: unknown, currency?: string): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const extracted = extractNumber(value);
+  if (!extracted) return undefined;
+  let { number } = extracted;
+
+  const lastComma = number.lastIndexOf(',');
+  const lastDot = number.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    // الفاصل الأخير هو الفاصلة العشرية
+    const decimal = lastComma > lastDot ? ',' : '.';
+    number = number.split(decimal === ',' ? '.' : ',').join('').replace(decimal, '.');
+  } else if (lastComma >= 0) {
+    // 50,000 أو 1,250,000 فاصل آلاف؛ 50,5 فاصلة عشرية
+    number = /^\d{1,3}(,\d{3})+$/.test(number) ? number.replace(/,/g, '') : number.replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3}){2,}$/.test(number)) {
+    // 1.250.000 فاصل آلاف
+    number = number.replace(/\./g, '');
+  } else if (AMBIGUOUS_DOT_PATTERN.test(number)) {
+    const code = resolveCurrencyCode(currency);
+    if (!code) return undefined;
+    // العملات ذات الخانات العشرية الثلاث (مثل KWD) فقط تقرأ 50.000 كعدد عشري
+    if (getCurrencyDecimals(code) !== 3) number = number.replace('.', '');
+  }
+
+  const amount = Number(number);
+  if (!Number.isFinite(amount)) return undefined;
+  return extracted.negative ? -amount : amount;
+};
+
+/**
+ * تنسيق المبلغ بفاصل الآلاف وعدد الخانات العشرية المعتمد للعملة.
+ */
+export const formatAmount = (amount: number, currency?: string): string => {
+  const digits = getCurrencyDecimals(currency);
+  return amount.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+};
+
+/**
+ * يوحد شرط التسليم إلى رمز Incoterms متبوعاً بالمكان المسمى، مثل "FOB SHANGHAI".
+ * الصيغ القديمة C&F و CNF تُكتب CFR، و Ex Works تُكتب EXW.
+ */
+export const normalizeIncoterms = (value: string): string => {
+  const upper = value.trim().toUpperCase().replace(/\b(C\s*&\s*F|CNF|C\+F)\b/g, 'CFR').replace(/\bEX[\s-]?WORKS\b/g, 'EXW').replace(/\s+/g, ' ');
+  const code = INCOTERMS.find(term => new RegExp(`\\b${term}\\b`).test(upper));
+  if (!code) return upper;
+  const place = upper.replace(new RegExp(`\\b${code}\\b`), '').replace(/INCOTERMS?\s*(\d{4})?/g, '').replace(/^[\s,\-:]+|[\s,\-:]+$/g, '');
+  return place ? `${code} ${place}` : code;
+};
+
+/**
+ * يتحقق من أن العملة رمز ISO 4217 معروف.
+ */
+export const validateCurrency = (currency: string): FieldValidation => {
+  if (resolveCurrencyCode(currency) === currency) {
+    return { status: 'valid', message: 'رمز العملة صحيح (ISO 4217).' };
+  }
+  if (/^[A-Z]{3}$/.test(currency)) {
+    return { status: 'unverifiable', message: `الرمز ${currency} غير موجود في جدول العملات المحلي.` };
+  }
+  return { status: 'invalid', message: 'لم يتم التعرف على العملة؛ يجب أن تكون رمز ISO 4217 من 3 أحرف مثل USD.' };
+};
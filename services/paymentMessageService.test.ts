@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { EnrichedData, PaymentDetails } from '../types';
+import { generateMt103, generatePain001 } from './paymentMessageService';
+
+const DATA: EnrichedData = {
+  beneficiaryName: 'إبراهيم للتجارة',
+  accountNumber: 'GB82WEST12345698765432',
+  swiftCode: 'NWBKGB2L',
+  bankName: 'بنك الرياض',
+  country: 'UNITED KINGDOM',
+  countryCode: 'GB',
+  province: '',
+  city: 'LONDON',
+  address: 'شارع الملك فهد',
+  latin: { beneficiaryName: 'IBRAHIM LIL TIJARA', bankName: 'BANK AL RIYADH', address: 'SHARI AL MALIK FAHD' },
+};
+
+const DETAILS: PaymentDetails = {
+  amount: '1,250.50',
+  currency: 'USD',
+  valueDate: '2024-03-01',
+  orderingName: 'ACME IMPORTS',
+  orderingAccount: 'SA0380000000608010167519',
+  orderingAddress: 'RIYADH',
+  remittanceInfo: 'INV-2024-77',
+};
+
+describe('generatePain001', () => {
+  it('يستخدم الصيغة اللاتينية للحقول العربية ومعرف الحوالة الممرر', () => {
+    const message = generatePain001(DATA, DETAILS, 'MNPTEST');
+    expect(message.content).toContain('<Nm>IBRAHIM LIL TIJARA</Nm>');
+    expect(message.content).toContain('<EndToEndId>MNPTEST</EndToEndId>');
+    expect(message.content).not.toMatch(/[؀-ۿ]/);
+    expect(message.issues).toEqual([]);
+  });
+
+  it('يرفض الأحرف العربية عند غياب الصيغة اللاتينية', () => {
+    const message = generatePain001({ ...DATA, latin: undefined }, DETAILS, 'MNPTEST');
+    expect(message.issues.some(issue => issue.includes('أحرف غير مسموح بها'))).toBe(true);
+  });
+});
+
+describe('generateMt103', () => {
+  it('يكتب المبلغ بفاصلة عشرية واسم المستفيد بالأحرف اللاتينية', () => {
+    const message = generateMt103(DATA, DETAILS);
+    expect(message.content).toContain(':32A:240301USD1250,5');
+    expect(message.content).toContain('IBRAHIM LIL TIJARA');
+    expect(message.issues).toEqual([]);
+  });
+
+  it('يرفض المبلغ السالب', () => {
+    expect(generateMt103(DATA, { ...DETAILS, amount: '-500' }).issues).toContain('المبلغ: يجب أن يكون رقماً موجباً بخانتين عشريتين على الأكثر.');
+  });
+});
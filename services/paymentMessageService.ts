@@ -0,0 +1,193 @@
+import { EnrichedData, PaymentDetails, PaymentMessage } from '../types';
+import { resolveCountryCode } from './countryData';
+import { getIbanCountry } from './validationService';
+
+// مجموعة الأحرف المسموح بها في رسائل SWIFT (X character set)، وتنطبق أيضاً على pain.001 في الحوالات الدولية
+const SWIFT_CHARSET = /^[A-Za-z0-9/\-?:().,'+ ]*$/;
+const BIC_PATTERN = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const MT_LINE_LENGTH = 35;
+const MT_MAX_LINES = 4;
+
+const checkText = (issues: string[], label: string, value: string, maxLength: number) => {
+  if (!SWIFT_CHARSET.test(value)) {
+    issues.push(`${label}: يحتوي على أحرف غير مسموح بها (يجب استخدام الأحرف اللاتينية والأرقام و / - ? : ( ) . , ' + فقط).`);
+  }
+  if (value.length > maxLength) {
+    issues.push(`${label}: الطول ${value.length} يتجاوز الحد الأقصى ${maxLength} حرفاً.`);
+  }
+};
+
+const parseAmount = (issues: string[], details: PaymentDetails): string => {
+  const amount = details.amount.replace(/[\s,]/g, '');
+  if (!/^\d{1,13}(\.\d{1,2})?$/.test(amount) || Number(amount) <= 0) {
+    issues.push('المبلغ: يجب أن يكون رقماً موجباً بخانتين عشريتين على الأكثر.');
+  }
+  return amount;
+};
+
+const checkCommonFields = (issues: string[], data: EnrichedData, details: PaymentDetails) => {
+  if (!CURRENCY_PATTERN.test(details.currency)) {
+    issues.push('العملة: يجب أن تكون رمز ISO 4217 من 3 أحرف (مثل USD).');
+  }
+  if (!data.beneficiaryName) issues.push('اسم المستفيد مفقود.');
+  if (!data.accountNumber) issues.push('رقم حساب المستفيد مفقود.');
+  if (!data.swiftCode) issues.push('رمز سويفت بنك المستفيد مفقود.');
+  else if (!BIC_PATTERN.test(data.swiftCode)) issues.push(`رمز السويفت ${data.swiftCode} غير صالح البنية.`);
+  if (!details.orderingName) issues.push('اسم الآمر بالتحويل مفقود.');
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// تقسيم النص إلى أسطر بطول محدد دون قطع الكلمات قدر الإمكان
+const wrapLines = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) current = word;
+    else if ((current + ' ' + word).length <= width) current += ' ' + word;
+    else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > width) {
+      lines.push(current.slice(0, width));
+      current = current.slice(width);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// في رسائل MT لا يجوز أن يبدأ السطر بالرمز ":" أو "-"
+const checkMtLines = (issues: string[], label: string, lines: string[]) => {
+  if (lines.length > MT_MAX_LINES) {
+    issues.push(`${label}: يحتاج ${lines.length} أسطر، والحد الأقصى ${MT_MAX_LINES} أسطر بطول ${MT_LINE_LENGTH} حرفاً.`);
+  }
+  if (lines.some(line => /^[:\-]/.test(line))) {
+    issues.push(`${label}: لا يجوز أن يبدأ السطر بالرمز ":" أو "-".`);
+  }
+  lines.forEach(line => checkText(issues, label, line, MT_LINE_LENGTH));
+};
+
+// في pain.001 يُكتب العنوان غير المهيكل في سطرين AdrLine على الأكثر بطول 70 حرفاً
+const checkAddressLines = (issues: string[], label: string, lines: string[]) => {
+  if (lines.length > 2) issues.push(`${label}: العنوان يحتاج ${lines.length} أسطر، والحد الأقصى سطران بطول 70 حرفاً.`);
+  lines.forEach(line => checkText(issues, label, line, 70));
+};
+
+// الرسائل تقبل الأحرف اللاتينية فقط، فتُستخدم الصيغة اللاتينية للاسم والبنك والعنوان المكتوبة بالعربية أو الصينية إن وُجدت
+const withLatinFields = (data: EnrichedData): EnrichedData => ({ ...data, ...data.latin });
+
+// معرف فريد للحوالة؛ يُنشأ مرة واحدة لكل رسالة حتى لا يتغير النص المنسوخ مع كل تعديل
+export const createEndToEndId = () => `MNP${Date.now().toString(36).toUpperCase()}`;
+
+/**
+ * ينشئ جزء CdtTrfTxInf من رسالة ISO 20022 pain.001 (مع بيانات الآمر Dbtr) ويتحقق من قواعد الصيغة.
+ */
+export const generatePain001 = (record: EnrichedData, details: PaymentDetails, endToEndId: string): PaymentMessage => {
+  const data = withLatinFields(record);
+  const issues: string[] = [];
+  checkCommonFields(issues, data, details);
+  const amount = parseAmount(issues, details);
+
+  const countryCode = resolveCountryCode(data.country);
+  if (data.country && !countryCode) {
+    issues.push(`الدولة "${data.country}": تعذر تحويلها إلى رمز ISO 3166 من حرفين.`);
+  }
+
+  const isIban = !!getIbanCountry(data.accountNumber);
+  const addressLines = wrapLines(data.address || '', 70);
+  const orderingAddressLines = wrapLines(details.orderingAddress, 70);
+
+  checkText(issues, 'Cdtr/Nm', data.beneficiaryName, 140);
+  checkText(issues, isIban ? 'CdtrAcct/IBAN' : 'CdtrAcct/Othr/Id', data.accountNumber, 34);
+  checkText(issues, 'PstCd', data.addressParts?.postalCode ?? '', 16);
+  checkText(issues, 'TwnNm', data.city, 35);
+  checkText(issues, 'CtrySubDvsn', data.province, 35);
+  checkAddressLines(issues, 'Cdtr/PstlAdr/AdrLine', addressLines);
+  checkText(issues, 'Dbtr/Nm', details.orderingName, 140);
+  checkAddressLines(issues, 'Dbtr/PstlAdr/AdrLine', orderingAddressLines);
+  checkText(issues, 'DbtrAcct/Id', details.orderingAccount, 34);
+  checkText(issues, 'RmtInf/Ustrd', details.remittanceInfo, 140);
+
+  const tag = (name: string, value: string, indent: string) => (value ? `${indent}<${name}>${escapeXml(value)}</${name}>\n` : '');
+  // العنصر المركب لا يُكتب إذا لم يكن فيه أي عنصر فرعي
+  const group = (name: string, children: string, indent: string) => (children ? `${indent}<${name}>\n${children}${indent}</${name}>\n` : '');
+
+  const content =
+    `<Dbtr>\n` +
+    tag('Nm', details.orderingName, '  ') +
+    group('PstlAdr', orderingAddressLines.slice(0, 2).map(line => tag('AdrLine', line, '    ')).join(''), '  ') +
+    `</Dbtr>\n` +
+    (details.orderingAccount ? `<DbtrAcct>\n  <Id>\n    <Othr>\n${tag('Id', details.orderingAccount, '      ')}    </Othr>\n  </Id>\n</DbtrAcct>\n` : '') +
+    `<CdtTrfTxInf>\n` +
+    `  <PmtId>\n${tag('EndToEndId', endToEndId, '    ')}  </PmtId>\n` +
+    `  <Amt>\n    <InstdAmt Ccy="${escapeXml(details.currency)}">${escapeXml(amount)}</InstdAmt>\n  </Amt>\n` +
+    `  <CdtrAgt>\n    <FinInstnId>\n${tag('BICFI', data.swiftCode, '      ')}${tag('Nm', data.bankName, '      ')}    </FinInstnId>\n  </CdtrAgt>\n` +
+    `  <Cdtr>\n` +
+    tag('Nm', data.beneficiaryName, '    ') +
+    group(
+      'PstlAdr',
+      tag('PstCd', data.addressParts?.postalCode ?? '', '      ') +
+        tag('TwnNm', data.city, '      ') +
+        tag('CtrySubDvsn', data.province, '      ') +
+        tag('Ctry', countryCode ?? '', '      ') +
+        addressLines.slice(0, 2).map(line => tag('AdrLine', line, '      ')).join(''),
+      '    ',
+    ) +
+    `  </Cdtr>\n` +
+    `  <CdtrAcct>\n    <Id>\n` +
+    (isIban ? tag('IBAN', data.accountNumber, '      ') : `      <Othr>\n${tag('Id', data.accountNumber, '        ')}      </Othr>\n`) +
+    `    </Id>\n  </CdtrAcct>\n` +
+    (details.remittanceInfo ? `  <RmtInf>\n${tag('Ustrd', details.remittanceInfo, '    ')}  </RmtInf>\n` : '') +
+    `</CdtTrfTxInf>`;
+
+  return { format: 'pain001', content, issues };
+};
+
+/**
+ * ينشئ حقول رسالة SWIFT MT103 الخاصة بالمبلغ والآمر والمستفيد وبنكه (32A و 50K و 57A و 59 و 70).
+ */
+export const generateMt103 = (record: EnrichedData, details: PaymentDetails): PaymentMessage => {
+  const data = withLatinFields(record);
+  const issues: string[] = [];
+  checkCommonFields(issues, data, details);
+  const amount = parseAmount(issues, details);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(details.valueDate)) {
+    issues.push('تاريخ الاستحقاق: يجب إدخال تاريخ صالح.');
+  }
+  const valueDate = details.valueDate.replace(/-/g, '').slice(2);
+  // في رسائل MT تُستخدم الفاصلة كفاصل عشري وتكون إلزامية
+  const mtAmount = amount.includes('.') ? amount.replace('.', ',') : `${amount},`;
+
+  // الاسم يبدأ دائماً في سطر مستقل ثم يليه العنوان
+  const orderingLines = [...wrapLines(details.orderingName, MT_LINE_LENGTH), ...wrapLines(details.orderingAddress, MT_LINE_LENGTH)];
+  const beneficiaryLines = [
+    ...wrapLines(data.beneficiaryName, MT_LINE_LENGTH),
+    ...wrapLines([data.address, data.city, data.province, data.country].filter(Boolean).join(' '), MT_LINE_LENGTH),
+  ];
+  const remittanceLines = wrapLines(details.remittanceInfo, MT_LINE_LENGTH);
+
+  checkText(issues, '50K (حساب الآمر)', details.orderingAccount, 34);
+  checkMtLines(issues, '50K (الآمر)', orderingLines);
+  checkText(issues, '59 (حساب المستفيد)', data.accountNumber, 34);
+  checkMtLines(issues, '59 (المستفيد)', beneficiaryLines);
+  checkMtLines(issues, '70 (بيانات الدفع)', remittanceLines);
+
+  const lines = [
+    `:32A:${valueDate}${details.currency}${mtAmount}`,
+    ...(details.orderingAccount
+      ? [`:50K:/${details.orderingAccount}`, ...orderingLines]
+      : [`:50K:${orderingLines[0] ?? ''}`, ...orderingLines.slice(1)]),
+    `:57A:${data.swiftCode}`,
+    `:59:/${data.accountNumber}`,
+    ...beneficiaryLines,
+    ...(remittanceLines.length ? [`:70:${remittanceLines[0]}`, ...remittanceLines.slice(1)] : []),
+  ];
+
+  return { format: 'mt103', content: lines.join('\n'), issues };
+};
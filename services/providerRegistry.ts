@@ -0,0 +1,51 @@
+import { EnrichmentProvider, ExtractionProvider } from '../types';
+import { geminiProvider } from './geminiService';
+import { localFixtureProvider } from './localFixtureProvider';
+import { ruleBasedProvider } from './ruleBasedExtractor';
+
+const STORAGE_KEY = 'manea-pro:provider';
+
+const PROVIDERS: Record<string, ExtractionProvider & EnrichmentProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [localFixtureProvider.id]: localFixtureProvider,
+};
+
+// مزودات الاستخراج فقط؛ الإثراء معها يتم عبر المزود المحلي لعدم توفر بحث دون شبكة
+const EXTRACTION_ONLY_PROVIDERS: Record<string, ExtractionProvider> = {
+  [ruleBasedProvider.id]: ruleBasedProvider,
+};
+
+export const PROVIDER_OPTIONS = [...Object.values(PROVIDERS), ...Object.values(EXTRACTION_ONLY_PROVIDERS)].map(({ id, label }) => ({ id, label }));
+
+const isKnownProvider = (id: string) => !!(PROVIDERS[id] || EXTRACTION_ONLY_PROVIDERS[id]);
+
+// المزود الافتراضي: المحدد في EXTRACTION_PROVIDER، وإلا Gemini عند توفر مفتاح API، وإلا الاستخراج المحلي بالقواعد.
+// البيانات التجريبية لا تكون افتراضية أبداً لأنها لا تُستخرج من المستند المرفوع
+const getDefaultProviderId = (): string => {
+  const configured = process.env.EXTRACTION_PROVIDER;
+  if (configured && isKnownProvider(configured)) return configured;
+  return process.env.API_KEY ? geminiProvider.id : ruleBasedProvider.id;
+};
+
+let activeProviderId: string = (() => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored && isKnownProvider(stored) ? stored : getDefaultProviderId();
+  } catch {
+    return getDefaultProviderId();
+  }
+})();
+
+export const getActiveProviderId = () => activeProviderId;
+
+export const setActiveProviderId = (id: string) => {
+  if (!isKnownProvider(id)) {
+    throw new Error(`مزود غير معروف: ${id}`);
+  }
+  activeProviderId = id;
+  localStorage.setItem(STORAGE_KEY, id);
+};
+
+export const getExtractionProvider = (): ExtractionProvider => PROVIDERS[activeProviderId] ?? EXTRACTION_ONLY_PROVIDERS[activeProviderId];
+
+export const getEnrichmentProvider = (): EnrichmentProvider => PROVIDERS[activeProviderId] ?? localFixtureProvider;
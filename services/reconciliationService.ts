@@ -0,0 +1,140 @@
+import { ExtractedData, ExtractedFieldKey, FieldReconciliation, ReconciliationReport } from '../types';
+import { resolveCountryCode } from './countryData';
+import { getFieldValue } from './recordService';
+
+type MatchMode = 'exact' | 'fuzzy' | 'country';
+
+// طريقة المقارنة لكل حقل: مطابقة تامة للأرقام والرموز، وتقريبية للأسماء والعناوين
+const FIELD_MATCH_MODES: Partial<Record<ExtractedFieldKey, MatchMode>> = {
+  beneficiaryName: 'fuzzy',
+  accountNumber: 'exact',
+  swiftCode: 'exact',
+  bankName: 'fuzzy',
+  country: 'country',
+  province: 'fuzzy',
+  city: 'fuzzy',
+  address: 'fuzzy',
+  invoiceNumber: 'exact',
+  buyerName: 'fuzzy',
+  currency: 'exact',
+  incoterms: 'exact',
+};
+
+const FUZZY_THRESHOLD = 0.85;
+
+// توحيد الاختصارات الشائعة في أسماء الشركات والعناوين قبل المقارنة
+const TOKEN_ALIASES: Record<string, string> = {
+  COMPANY: 'CO',
+  LIMITED: 'LTD',
+  CORPORATION: 'CORP',
+  INCORPORATED: 'INC',
+  INTERNATIONAL: 'INTL',
+  TRADING: 'TRD',
+  STREET: 'ST',
+  ROAD: 'RD',
+  AVENUE: 'AVE',
+  BUILDING: 'BLDG',
+};
+
+/**
+ * يزيل علامات الترقيم والتشكيل ويوحد حالة الأحرف وصور الحروف العربية المتشابهة.
+ */
+export const normalizeForComparison = (value: string): string =>
+  value
+    .toUpperCase()
+    .replace(/[ً-ْـ]/g, '') // التشكيل والتطويل
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => TOKEN_ALIASES[token] ?? token)
+    .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * نسبة التشابه (0 إلى 1) بعد ترتيب الكلمات، حتى لا يؤثر اختلاف ترتيب أجزاء الاسم أو العنوان.
+ */
+export const similarity = (a: string, b: string): number => {
+  const sortTokens = (value: string) => normalizeForComparison(value).split(' ').sort().join(' ');
+  const left = sortTokens(a);
+  const right = sortTokens(b);
+  if (!left && !right) return 1;
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest;
+};
+
+const valuesMatch = (mode: MatchMode, a: string, b: string): boolean => {
+  switch (mode) {
+    case 'exact':
+      return normalizeForComparison(a).replace(/\s/g, '') === normalizeForComparison(b).replace(/\s/g, '');
+    case 'country': {
+      const codeA = resolveCountryCode(a);
+      const codeB = resolveCountryCode(b);
+      if (codeA && codeB) return codeA === codeB;
+      return normalizeForComparison(a) === normalizeForComparison(b);
+    }
+    case 'fuzzy':
+      return similarity(a, b) >= FUZZY_THRESHOLD;
+  }
+};
+
+const reconcileField = (mode: MatchMode, values: (string | undefined)[]): FieldReconciliation => {
+  const missingIndices: number[] = [];
+  // كل مجموعة تضم المستندات المتطابقة، وأول قيمة فيها هي الممثلة للمجموعة
+  const clusters: { representative: string; indices: number[] }[] = [];
+
+  values.forEach((value, index) => {
+    if (!value || !value.trim()) {
+      missingIndices.push(index);
+      return;
+    }
+    const cluster = clusters.find(c => valuesMatch(mode, c.representative, value));
+    if (cluster) cluster.indices.push(index);
+    else clusters.push({ representative: value, indices: [index] });
+  });
+
+  const sorted = [...clusters].sort((a, b) => b.indices.length - a.indices.length);
+  const [top, runnerUp] = sorted;
+  const hasMajority = !!top && (!runnerUp || top.indices.length > runnerUp.indices.length);
+
+  const majorityIndices = hasMajority ? top.indices : [];
+  const mismatchedIndices = values
+    .map((_, index) => index)
+    .filter(index => !missingIndices.includes(index) && !majorityIndices.includes(index));
+
+  return {
+    agreeCount: majorityIndices.length,
+    total: values.length,
+    majorityValue: hasMajority ? top.representative : null,
+    mismatchedIndices,
+    missingIndices,
+  };
+};
+
+/**
+ * يقارن كل حقل بين مستندات الدفعة ويحدد القيمة الأغلبية والمستندات المخالفة لها.
+ */
+export const reconcileDocuments = (records: ExtractedData[]): ReconciliationReport => {
+  const report: ReconciliationReport = {};
+  for (const [field, mode] of Object.entries(FIELD_MATCH_MODES) as [ExtractedFieldKey, MatchMode][]) {
+    report[field] = reconcileField(mode, records.map(record => getFieldValue(record, field)));
+  }
+  return report;
+};
@@ -0,0 +1,29 @@
+import { DocumentType, ExtractedData, ExtractedFieldKey, OutputScript, PageRange, ProcessableFile, TransliterableFieldKey } from '../types';
+import { formatAmount } from './invoiceService';
+
+export const formatPageRange = (pages?: PageRange): string => {
+  if (!pages) return '';
+  return pages.start === pages.end ? `صفحة ${pages.start}` : `صفحات ${pages.start}-${pages.end}`;
+};
+
+/**
+ * اسم الصف في الدفعة: اسم الملف، مع رقم السجل ونطاق صفحاته إذا قُسم الملف إلى عدة سجلات.
+ */
+export const getRecordName = (pf: ProcessableFile): string => {
+  if (!pf.record) return pf.file.name;
+  const pages = formatPageRange(pf.data?.pages);
+  return `${pf.file.name} (${pf.record.index}/${pf.record.total}${pages ? ` — ${pages}` : ''})`;
+};
+
+// النوع يُحدد للملف قبل الاستخراج، أما الملفات المضافة من السجل فنوعها محفوظ مع البيانات
+export const getDocumentType = (pf: ProcessableFile): DocumentType | undefined => pf.documentType ?? pf.data?.documentType;
+
+/**
+ * قيمة الحقل كنص للعرض والنسخ والمقارنة؛ المبلغ يُنسق حسب خانات عملته.
+ * عند طلب الكتابة اللاتينية تُستخدم الصيغة اللاتينية للحقل إن وجدت.
+ */
+export const getFieldValue = (data: ExtractedData, key: ExtractedFieldKey, script: OutputScript = 'original'): string => {
+  if (key === 'amount') return data.amount === undefined ? '' : formatAmount(data.amount, data.currency);
+  const latin = script === 'latin' ? data.latin?.[key as TransliterableFieldKey] : undefined;
+  return latin ?? data[key] ?? '';
+};
@@ -0,0 +1,156 @@
+import { ExtractedData, HsCodeSuggestion, RestrictedGoodsMatch, RestrictedGoodsRule, RestrictedGoodsRuleType } from '../types';
+import { splitCsvLine } from './blocklistService';
+import { containsTerm, normalizeHsCode, suggestHsCodes } from './hsCodeData';
+import { normalizeForComparison } from './reconciliationService';
+
+const STORAGE_KEY = 'manea-pro:restricted-goods';
+
+const rule = (type: RestrictedGoodsRuleType, value: string, reason: string): RestrictedGoodsRule =>
+  ({ id: `default-${type}-${value}`, type, value, reason, source: 'القائمة الافتراضية' });
+
+// القائمة الافتراضية عند أول تشغيل: بضائع عسكرية أو مزدوجة الاستخدام تتطلب مراجعة الامتثال
+const DEFAULT_RULES: RestrictedGoodsRule[] = [
+  rule('keyword', 'drone', 'طائرات مسيرة - مزدوجة الاستخدام'),
+  rule('keyword', 'UAV', 'طائرات مسيرة - مزدوجة الاستخدام'),
+  rule('keyword', 'طائرة مسيرة', 'طائرات مسيرة - مزدوجة الاستخدام'),
+  rule('keyword', 'طائرات مسيرة', 'طائرات مسيرة - مزدوجة الاستخدام'),
+  rule('keyword', 'night vision', 'معدات رؤية ليلية - مزدوجة الاستخدام'),
+  rule('keyword', 'thermal imaging', 'كاميرات حرارية - مزدوجة الاستخدام'),
+  rule('keyword', 'explosive', 'مواد متفجرة'),
+  rule('keyword', 'متفجرات', 'مواد متفجرة'),
+  rule('keyword', 'detonator', 'صواعق تفجير'),
+  rule('keyword', 'ammunition', 'ذخائر'),
+  rule('keyword', 'ذخيرة', 'ذخائر'),
+  rule('keyword', 'firearm', 'أسلحة نارية'),
+  rule('keyword', 'أسلحة', 'أسلحة'),
+  rule('keyword', 'centrifuge', 'أجهزة طرد مركزي - مزدوجة الاستخدام'),
+  rule('keyword', 'uranium', 'مواد نووية'),
+  rule('keyword', 'ammonium nitrate', 'سماد قابل للاستخدام في صنع المتفجرات'),
+  rule('keyword', 'نترات الأمونيوم', 'سماد قابل للاستخدام في صنع المتفجرات'),
+  rule('hsCode', '93', 'الفصل 93: أسلحة وذخائر'),
+  rule('hsCode', '36', 'الفصل 36: متفجرات ومنتجات نارية'),
+  rule('hsCode', '2844', 'البند 2844: عناصر ونظائر مشعة'),
+  rule('hsCode', '8710', 'البند 8710: دبابات ومركبات مدرعة'),
+  rule('hsCode', '8806', 'البند 8806: طائرات دون طيار'),
+];
+
+export const RESTRICTED_GOODS_RULE_LABELS: Record<RestrictedGoodsRuleType, string> = {
+  keyword: 'كلمة في الوصف',
+  hsCode: 'فصل / بند HS',
+};
+
+// أسماء الأعمدة المقبولة عند الاستيراد لكل نوع قاعدة
+const RULE_TYPE_ALIASES: Record<string, RestrictedGoodsRuleType> = {
+  keyword: 'keyword', word: 'keyword', description: 'keyword',
+  hs: 'hsCode', hscode: 'hsCode', hschapter: 'hsCode', chapter: 'hsCode', heading: 'hsCode',
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const loadRestrictedGoods = (): RestrictedGoodsRule[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RestrictedGoodsRule[]) : DEFAULT_RULES;
+  } catch (e) {
+    console.error("Failed to load restricted goods list from localStorage:", e);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRestrictedGoods = (rules: RestrictedGoodsRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+const toRule = (raw: Record<string, unknown>, position: number): RestrictedGoodsRule => {
+  const type = RULE_TYPE_ALIASES[String(raw.type ?? '').trim().toLowerCase().replace(/[\s_-]/g, '')];
+  const rawValue = String(raw.value ?? '').trim();
+  const value = type === 'hsCode' ? normalizeHsCode(rawValue) : rawValue;
+  if (!type || !value) {
+    throw new Error(`سجل غير صالح في السطر ${position}: يجب تحديد نوع القاعدة (keyword, hsCode) وقيمتها، وأن يكون رمز HS أرقاماً.`);
+  }
+  return {
+    id: createId(),
+    type,
+    value,
+    reason: String(raw.reason ?? '').trim(),
+    source: String(raw.source ?? '').trim(),
+  };
+};
+
+/**
+ * يحلل ملف قائمة البضائع المقيدة بصيغة CSV (بأعمدة type,value,reason,source) أو JSON (مصفوفة كائنات بنفس المفاتيح).
+ */
+export const parseRestrictedGoodsFile = (content: string, fileName: string): RestrictedGoodsRule[] => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error("ملف JSON غير صالح.");
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error("يجب أن يحتوي ملف JSON على مصفوفة من القواعد.");
+    }
+    return parsed.map((item, i) => toRule(item as Record<string, unknown>, i + 1));
+  }
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) {
+    throw new Error("ملف CSV فارغ أو لا يحتوي على سطر العناوين.");
+  }
+  const headers = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  return lines.slice(1).map((line, i) => {
+    const cells = splitCsvLine(line);
+    const raw = Object.fromEntries(headers.map((header, j) => [header, cells[j] ?? '']));
+    return toRule(raw, i + 2);
+  });
+};
+
+/**
+ * يدمج القواعد المستوردة مع القائمة الحالية مع تجاهل المكرر (نفس النوع والقيمة).
+ */
+export const mergeRestrictedGoods = (existing: RestrictedGoodsRule[], imported: RestrictedGoodsRule[]): RestrictedGoodsRule[] => {
+  const keyOf = (r: RestrictedGoodsRule) => `${r.type}:${normalizeForComparison(r.value)}`;
+  const seen = new Set(existing.map(keyOf));
+  const merged = [...existing];
+  for (const rule of imported) {
+    if (seen.has(keyOf(rule))) continue;
+    seen.add(keyOf(rule));
+    merged.push(rule);
+  }
+  return merged;
+};
+
+export const createRestrictedGoodsRule = (type: RestrictedGoodsRuleType, value: string, reason: string, source: string): RestrictedGoodsRule =>
+  toRule({ type, value, reason, source }, 1);
+
+/**
+ * يدمج رموز HS المقترحة من النموذج مع اقتراحات الجدول المحلي، مع تجاهل البنود المكررة (أول 4 أرقام).
+ */
+export const mergeHsCodes = (modelCodes: HsCodeSuggestion[] = [], goodsDescription = ''): HsCodeSuggestion[] => {
+  const seen = new Set<string>();
+  const merged: HsCodeSuggestion[] = [];
+  for (const suggestion of [...modelCodes, ...suggestHsCodes(goodsDescription)]) {
+    const code = normalizeHsCode(suggestion.code);
+    if (code.length < 4 || seen.has(code.slice(0, 4))) continue;
+    seen.add(code.slice(0, 4));
+    merged.push({ ...suggestion, code });
+  }
+  return merged;
+};
+
+/**
+ * يفحص وصف البضاعة ورموز HS المرشحة مقابل قائمة البضائع المقيدة ويعيد كل القواعد المطابقة.
+ */
+export const screenGoods = (data: ExtractedData, rules: RestrictedGoodsRule[]): RestrictedGoodsMatch[] => {
+  const description = data.goodsDescription ?? '';
+  // النتائج المخزنة قبل إضافة رموز HS لا تحتوي hsCodes، فنكتفي عندها بالجدول المحلي
+  const codes = (data.hsCodes ?? suggestHsCodes(description)).map(s => s.code);
+  return rules.flatMap(rule => {
+    if (rule.type === 'keyword') {
+      return description && containsTerm(description, rule.value) ? [{ rule, matchedValue: rule.value }] : [];
+    }
+    const code = codes.find(c => c.startsWith(rule.value));
+    return code ? [{ rule, matchedValue: code }] : [];
+  });
+};
@@ -0,0 +1,89 @@
+export interface RetryOptions {
+  maxAttempts?: number; // إجمالي المحاولات بما فيها الأولى
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal; // الإلغاء يوقف الانتظار بين المحاولات فوراً
+}
+
+// AbortController يرمي DOMException باسم AbortError سواء من fetch أو من signal.throwIfAborted()
+export const isAbortError = (error: unknown): boolean => (error as any)?.name === 'AbortError';
+
+const errorMessage = (error: unknown): string => String((error as any)?.message ?? '');
+
+// رمز حالة HTTP من أخطاء SDK (ApiError.status أو code)، وإلا من جسم JSON في الرسالة بصيغة {"error":{"code":429}}.
+// لا نبحث عن أرقام في نص الرسالة الحر حتى لا يُعامل "line 500" كخطأ خادم
+export const getErrorStatus = (error: unknown): number | undefined => {
+  const { status, code } = (error as any) ?? {};
+  if (typeof status === 'number') return status;
+  if (typeof code === 'number' && code >= 100 && code < 600) return code;
+  try {
+    const bodyCode = JSON.parse(errorMessage(error))?.error?.code;
+    return typeof bodyCode === 'number' ? bodyCode : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// استنفاد الحصة اليومية (أو حصة صفرية للخطة) لا يزول بإعادة المحاولة خلال دقائق، بخلاف حد الطلبات في الدقيقة
+export const isQuotaExhaustedError = (error: unknown): boolean =>
+  getErrorStatus(error) === 429 && /PerDay|per.day|daily|limit: 0\b/i.test(errorMessage(error));
+
+export const isRateLimitError = (error: unknown): boolean => {
+  if (isQuotaExhaustedError(error)) return false;
+  const status = getErrorStatus(error);
+  return status === 429 || (status === undefined && /RESOURCE_EXHAUSTED/.test(errorMessage(error)));
+};
+
+/**
+ * الأخطاء المؤقتة فقط تستحق إعادة المحاولة: تجاوز حد الطلبات، أخطاء الخادم 5xx، وانقطاع الشبكة.
+ * استنفاد الحصة اليومية ليس مؤقتاً.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (isRateLimitError(error)) return true;
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status >= 500;
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+};
+
+// رسالة عربية مفهومة للمستخدم بعد استنفاد المحاولات
+export const describeServiceError = (error: unknown): string => {
+  if (isQuotaExhaustedError(error)) return "تم استنفاد الحصة اليومية لخدمة النموذج. يرجى المحاولة بعد تجديد الحصة أو ترقية الخطة.";
+  if (isRateLimitError(error)) return "تم تجاوز حد الطلبات المسموح به لخدمة النموذج. يرجى الانتظار قليلاً ثم إعادة المحاولة.";
+  const status = getErrorStatus(error);
+  if (status !== undefined && status >= 500) return `خدمة النموذج غير متاحة مؤقتاً (خطأ ${status}). يرجى إعادة المحاولة لاحقاً.`;
+  return (error as any)?.message || 'خطأ غير معروف أثناء المعالجة.';
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * ينفذ العملية مع إعادة المحاولة للأخطاء المؤقتة بتأخير أسي وعشوائية كاملة (full jitter)
+ * حتى لا تعيد الملفات المتوازية المحاولة في نفس اللحظة.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, { maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 30000, onRetry, signal }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await operation();
+    } catch (e) {
+      if (attempt >= maxAttempts || signal?.aborted || !isRetryableError(e)) throw e;
+      // حد الطلبات يحتاج انتظاراً أطول من أخطاء الخادم العابرة
+      const base = isRateLimitError(e) ? baseDelayMs * 2 : baseDelayMs;
+      const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, base * 2 ** (attempt - 1)));
+      onRetry?.(e, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { extractFromText, isCompleteExtraction, ruleBasedProvider } from './ruleBasedExtractor';
+
+const INVOICE = `COMMERCIAL INVOICE
+Invoice No: INV-2024-77   Date: 2024-03-01
+Beneficiary Name: ACME TRADING CO., LTD
+Beneficiary Bank: Industrial and Commercial Bank of China
+Account No: 6222 0212 3456 7890
+SWIFT Code: ICBK CNBJ XXX
+Address: No. 88 Huaxia Road, Pudong   Tel: +86 21 5555 0000
+City: Shanghai
+Country: China
+Total Amount: USD 50,000.00
+Incoterms: FOB Shanghai`;
+
+describe('extractFromText', () => {
+  it('يقرأ الحقول من العناوين الإنجليزية ويوقف القيمة عند العنوان التالي في نفس السطر', () => {
+    const data = extractFromText(INVOICE);
+    expect(data).toMatchObject({
+      invoiceNumber: 'INV-2024-77',
+      beneficiaryName: 'ACME TRADING CO., LTD',
+      bankName: 'Industrial and Commercial Bank of China',
+      accountNumber: '6222 0212 3456 7890',
+      swiftCode: 'ICBKCNBJXXX',
+      address: 'No. 88 Huaxia Road, Pudong',
+      city: 'Shanghai',
+      country: 'China',
+      amount: 50000,
+      currency: 'USD',
+      incoterms: 'FOB Shanghai',
+    });
+    expect(isCompleteExtraction(data)).toBe(true);
+  });
+
+  it('يقرأ العناوين العربية والقيمة في السطر التالي', () => {
+    const data = extractFromText('اسم المستفيد:\nشركة النور للتجارة\nالبنك: بنك الرياض\nالدولة: السعودية\nالمبلغ الإجمالي: (1,250.50) SAR');
+    expect(data.beneficiaryName).toBe('شركة النور للتجارة');
+    expect(data.evidence?.beneficiaryName?.confidence).toBeLessThan(data.evidence!.bankName!.confidence);
+    expect(data.bankName).toBe('بنك الرياض');
+    expect(data.country).toBe('السعودية');
+    expect(data.amount).toBe(-1250.5);
+  });
+
+  it('يلتقط IBAN صالحاً دون عنوان، ورمز BIC فقط بجوار كلمة SWIFT', () => {
+    const data = extractFromText('Please remit to GB82 WEST 1234 5698 7654 32\nRef ABCDGB2L\nSWIFT\nNWBKGB2L');
+    expect(data.accountNumber).toBe('GB82WEST12345698765432');
+    expect(data.swiftCode).toBe('NWBKGB2L');
+  });
+
+  it('يعيد حقولاً فارغة دون أخطاء عندما لا يجد شيئاً', () => {
+    const data = extractFromText('Thank you for your business.');
+    expect(data.beneficiaryName).toBe('');
+    expect(data.swiftCode).toBe('');
+    expect(data.evidence).toEqual({});
+    expect(isCompleteExtraction(data)).toBe(false);
+  });
+});
+
+describe('ruleBasedProvider', () => {
+  it('يرفض المحتوى غير النصي', async () => {
+    await expect(ruleBasedProvider.extract({ kind: 'inline', mimeType: 'image/png', data: '' })).rejects.toThrow('الملفات النصية فقط');
+  });
+});
@@ -0,0 +1,170 @@
+import { DocumentContent, ExtractedData, ExtractedFieldKey, ExtractionProvider, FieldEvidence, FieldEvidenceMap } from '../types';
+import { validateBic, validateIban } from './validationService';
+import { parseAmount } from './invoiceService';
+import { findCurrencyInText } from './currencyData';
+
+// العناوين التي تسبق قيمة كل حقل في المستندات العربية والإنجليزية
+const FIELD_LABELS: Record<ExtractedFieldKey, string[]> = {
+  beneficiaryName: ['beneficiary name', 'beneficiary', 'account name', 'a/c name', 'payee', 'اسم المستفيد', 'المستفيد', 'اسم الحساب'],
+  accountNumber: ['iban', 'account number', 'account no', 'a/c no', 'a/c', 'acct no', 'رقم الحساب', 'رقم الآيبان', 'رقم الايبان', 'الآيبان', 'الايبان'],
+  swiftCode: ['swift/bic', 'swift code', 'swift', 'bic', 'رمز السويفت', 'السويفت', 'سويفت'],
+  bankName: ['beneficiary bank', 'bank name', 'bank', 'بنك المستفيد', 'اسم البنك', 'البنك'],
+  country: ['country', 'الدولة', 'البلد'],
+  province: ['province', 'state', 'المقاطعة', 'الولاية', 'المحافظة'],
+  city: ['city', 'المدينة'],
+  address: ['beneficiary address', 'address', 'عنوان المستفيد', 'العنوان'],
+  goodsDescription: ['description of goods', 'goods description', 'وصف البضاعة', 'البضاعة'],
+  invoiceNumber: ['invoice no', 'invoice number', 'invoice #', 'inv no', 'رقم الفاتورة'],
+  invoiceDate: ['invoice date', 'تاريخ الفاتورة'],
+  buyerName: ['buyer', 'consignee', 'sold to', 'bill to', 'المشتري', 'المرسل إليه'],
+  amount: ['total amount', 'invoice total', 'grand total', 'amount due', 'total', 'amount', 'المبلغ الإجمالي', 'إجمالي المبلغ', 'الإجمالي', 'المبلغ'],
+  currency: ['currency', 'العملة'],
+  paymentTerms: ['payment terms', 'terms of payment', 'شروط الدفع'],
+  incoterms: ['incoterms', 'delivery terms', 'trade terms', 'شروط التسليم'],
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// الأطول أولاً حتى لا يطابق "bank" قبل "bank name" أو "beneficiary" قبل "beneficiary bank"
+const LABELS = (Object.entries(FIELD_LABELS) as [ExtractedFieldKey, string[]][])
+  .flatMap(([field, labels]) => labels.map(label => ({ field, label })))
+  .sort((a, b) => b.label.length - a.label.length);
+
+const SEPARATOR = '\\.?\\s*(?:[:：\\-–|,\\t]|$)';
+const LINE_LABEL_PATTERNS = LABELS.map(({ field, label }) => ({
+  field,
+  regex: new RegExp(`^[\\s*•\\-\\d.)]*${escapeRegExp(label)}${SEPARATOR}\\s*(.*)$`, 'i'),
+}));
+// أي عنوان آخر يظهر لاحقاً في نفس السطر يُنهي القيمة الحالية، سواء كان من العناوين المعروفة أو غيرها
+// مثل "Invoice No: INV-2024-77   Date: 2024-03-01": كلمة واحدة قبل النقطتين، أو عدة كلمات بعد فراغ واسع
+const INLINE_LABEL = new RegExp(
+  `\\s(?:${LABELS.map(l => escapeRegExp(l.label)).join('|')})\\s*[:：]|\\s[\\p{L}][\\p{L}#./]*\\s*[:：]|(?:\\s{2,}|\\t)[\\p{L}][\\p{L}#./ ]{0,30}[:：]`,
+  'iu',
+);
+
+const IBAN_CANDIDATE = /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?\b/g;
+const BIC_CANDIDATE = /\b[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?\b/g;
+const BIC_CONTEXT = /swift|bic|سويفت/i;
+
+const cleanValue = (value: string) => {
+  const cutAt = value.search(INLINE_LABEL);
+  return (cutAt >= 0 ? value.slice(0, cutAt) : value).replace(/^[,\s"]+|[,\s"]+$/g, '').replace(/\s+/g, ' ');
+};
+
+// درجات الثقة حسب طريقة العثور على القيمة
+const CONFIDENCE = {
+  sameLineLabel: 0.8,
+  nextLineLabel: 0.65,
+  unlabelledIban: 0.9, // خانة التحقق صحيحة لكن دون عنوان يربطها بالمستفيد
+  contextBic: 0.6,
+};
+
+type Found = { value: string } & FieldEvidence;
+
+const findLabelledValues = (lines: string[]): Partial<Record<ExtractedFieldKey, Found>> => {
+  const values: Partial<Record<ExtractedFieldKey, Found>> = {};
+  lines.forEach((line, index) => {
+    for (const { field, regex } of LINE_LABEL_PATTERNS) {
+      const match = line.match(regex);
+      if (!match) continue;
+      if (!values[field]) {
+        // القيمة في نفس السطر، أو في السطر التالي إذا كان العنوان وحده في سطره
+        const sameLine = cleanValue(match[1]);
+        const nextLine = lines[index + 1] ?? '';
+        const value = sameLine || cleanValue(nextLine);
+        if (value) {
+          values[field] = sameLine
+            ? { value, confidence: CONFIDENCE.sameLineLabel, snippet: line }
+            : { value, confidence: CONFIDENCE.nextLineLabel, snippet: `${line}\n${nextLine}` };
+        }
+      }
+      break;
+    }
+  });
+  return values;
+};
+
+const findValidIban = (lines: string[]): Found | undefined => {
+  for (const line of lines) {
+    const value = Array.from(line.toUpperCase().matchAll(IBAN_CANDIDATE), m => m[0].replace(/\s/g, ''))
+      .find(candidate => validateIban(candidate).status === 'valid');
+    if (value) return { value, confidence: CONFIDENCE.unlabelledIban, snippet: line };
+  }
+  return undefined;
+};
+
+// رموز BIC بدون عنوان صريح تُقبل فقط إذا ظهرت في سطر يذكر SWIFT/BIC أو السطر الذي يليه
+const findBic = (lines: string[]): Found | undefined => {
+  for (let i = 0; i < lines.length; i++) {
+    if (!BIC_CONTEXT.test(lines[i]) && !BIC_CONTEXT.test(lines[i - 1] ?? '')) continue;
+    const value = Array.from(lines[i].matchAll(BIC_CANDIDATE), m => m[0])
+      .find(code => validateBic(code).status === 'valid');
+    if (value) return { value, confidence: CONFIDENCE.contextBic, snippet: lines[i] };
+  }
+  return undefined;
+};
+
+/**
+ * يستخرج البيانات المصرفية من نص المستند محلياً (دون أي اتصال بالشبكة) اعتماداً على العناوين الشائعة
+ * بالعربية والإنجليزية، وعلى أنماط IBAN (مع التحقق من خانة التحقق) و SWIFT/BIC.
+ */
+export const extractFromText = (text: string): ExtractedData => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const found = findLabelledValues(lines);
+
+  const labelledSwift = found.swiftCode?.value.replace(/\s/g, '').toUpperCase().match(/^[A-Z0-9]{8,11}/)?.[0];
+  if (labelledSwift) found.swiftCode!.value = labelledSwift;
+  else found.swiftCode = findBic(lines);
+
+  found.accountNumber ??= findValidIban(lines);
+
+  const evidence: FieldEvidenceMap = {};
+  // findBic و findValidIban قد لا يجدان شيئاً فتبقى قيمة الحقل undefined
+  for (const [field, fieldFound] of Object.entries(found) as [ExtractedFieldKey, Found | undefined][]) {
+    if (!fieldFound?.value) continue;
+    const { value, ...fieldEvidence } = fieldFound;
+    evidence[field] = fieldEvidence;
+  }
+
+  // العملة تُذكر غالباً مع المبلغ نفسه، مثل "Total: USD 50,000.00"، وتحدد قراءة المبالغ مثل 50.000
+  const currency = found.currency?.value ?? findCurrencyInText(found.amount?.value) ?? undefined;
+
+  return {
+    beneficiaryName: found.beneficiaryName?.value ?? '',
+    accountNumber: found.accountNumber?.value ?? '',
+    swiftCode: found.swiftCode?.value ?? '',
+    bankName: found.bankName?.value ?? '',
+    country: found.country?.value ?? '',
+    province: found.province?.value ?? '',
+    city: found.city?.value ?? '',
+    address: found.address?.value ?? '',
+    goodsDescription: found.goodsDescription?.value,
+    invoiceNumber: found.invoiceNumber?.value,
+    invoiceDate: found.invoiceDate?.value,
+    buyerName: found.buyerName?.value,
+    amount: parseAmount(found.amount?.value, currency),
+    currency,
+    paymentTerms: found.paymentTerms?.value,
+    incoterms: found.incoterms?.value,
+    evidence,
+  };
+};
+
+/**
+ * يعتبر الاستخراج المحلي كافياً لتجاوز النموذج عندما يجد الحقول الأساسية للتحويل.
+ */
+export const isCompleteExtraction = (data: ExtractedData): boolean =>
+  !!(data.beneficiaryName && data.accountNumber && data.swiftCode && data.bankName && data.country);
+
+export const ruleBasedProvider: ExtractionProvider = {
+  id: 'rules',
+  label: 'قواعد محلية (ملفات نصية فقط)',
+  model: 'rules',
+  promptVersion: 1,
+  extract: async (content: DocumentContent): Promise<ExtractedData[]> => {
+    if (content.kind !== 'text') {
+      throw new Error("الاستخراج المحلي بالقواعد يدعم الملفات النصية فقط (Word, Excel, Text, PDF نصي). يرجى اختيار مزود آخر للصور وملفات PDF الممسوحة ضوئياً.");
+    }
+    return [extractFromText(content.text)];
+  },
+};
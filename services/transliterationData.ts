@@ -0,0 +1,74 @@
+// جداول التحويل إلى الأحرف اللاتينية بصيغة ASCII مبسطة بأحرف كبيرة، متوافقة مع الأحرف المسموحة في رسائل SWIFT
+
+// مقابل كل حرف عربي عند عدم وجود الكلمة في القاموس؛ حروف العلة الطويلة تعالج بشكل منفصل
+export const ARABIC_LETTERS: Record<string, string> = {
+  'ب': 'B', 'ت': 'T', 'ث': 'TH', 'ج': 'J', 'ح': 'H', 'خ': 'KH', 'د': 'D', 'ذ': 'DH', 'ر': 'R', 'ز': 'Z',
+  'س': 'S', 'ش': 'SH', 'ص': 'S', 'ض': 'D', 'ط': 'T', 'ظ': 'Z', 'غ': 'GH', 'ف': 'F', 'ق': 'Q', 'ك': 'K',
+  'ل': 'L', 'م': 'M', 'ن': 'N', 'ه': 'H', 'ع': 'A', 'پ': 'P', 'چ': 'CH', 'گ': 'G', 'ڤ': 'V',
+};
+
+// الصيغ اللاتينية الشائعة في المستندات المصرفية للأسماء والكلمات المتكررة (دون "ال" التعريف)
+export const ARABIC_WORDS: Record<string, string> = {
+  'محمد': 'MOHAMMED', 'احمد': 'AHMED', 'محمود': 'MAHMOUD', 'مصطفى': 'MOSTAFA', 'علي': 'ALI', 'عمر': 'OMAR',
+  'عثمان': 'OTHMAN', 'حسن': 'HASSAN', 'حسين': 'HUSSEIN', 'خالد': 'KHALED', 'سعيد': 'SAEED', 'سعد': 'SAAD',
+  'صالح': 'SALEH', 'سالم': 'SALEM', 'سلمان': 'SALMAN', 'سليمان': 'SULAIMAN', 'عبدالله': 'ABDULLAH', 'عبد': 'ABDUL',
+  'ابراهيم': 'IBRAHIM', 'يوسف': 'YOUSEF', 'يحيى': 'YAHYA', 'ناصر': 'NASSER', 'فهد': 'FAHAD', 'فيصل': 'FAISAL',
+  'ماجد': 'MAJED', 'منصور': 'MANSOUR', 'مانع': 'MANEA', 'طارق': 'TAREK', 'وليد': 'WALEED', 'هشام': 'HISHAM',
+  'جمال': 'JAMAL', 'كمال': 'KAMAL', 'نبيل': 'NABIL', 'عادل': 'ADEL', 'امين': 'AMEEN', 'ياسر': 'YASSER',
+  'زيد': 'ZAID', 'رشيد': 'RASHID', 'راشد': 'RASHED', 'حمد': 'HAMAD', 'حامد': 'HAMED', 'جابر': 'JABER',
+  'قاسم': 'QASSEM', 'مراد': 'MURAD', 'شريف': 'SHARIF', 'اسماعيل': 'ISMAIL', 'موسى': 'MOUSA', 'عيسى': 'ISSA',
+  'فاطمه': 'FATIMA', 'عائشه': 'AISHA', 'مريم': 'MARYAM', 'نور': 'NOOR', 'عز': 'EZZ', 'دين': 'DIN',
+  'رحمن': 'RAHMAN', 'رحيم': 'RAHIM', 'عزيز': 'AZIZ', 'كريم': 'KARIM', 'مجيد': 'MAJEED', 'ملك': 'MALIK',
+  'عزالدين': 'EZZELDIN', 'نورالدين': 'NOURELDIN', 'صلاح': 'SALAH', 'عبدالعزيز': 'ABDULAZIZ', 'عبدالرحمن': 'ABDULRAHMAN',
+  'ابو': 'ABU', 'بن': 'BIN', 'بنت': 'BINT', 'ام': 'UM',
+  'شركه': 'SHARIKAT', 'مؤسسه': 'MUASSASAT', 'مجموعه': 'MAJMUAT', 'تجاره': 'TIJARA', 'تجاريه': 'TIJARIYA',
+  'تجاري': 'TIJARI', 'محدوده': 'MAHDUDA', 'صناعه': 'SINAA', 'صناعيه': 'SINAIYA', 'عامه': 'AMMA', 'خدمات': 'KHADAMAT',
+  'تمويل': 'TAMWEEL', 'اصغر': 'ASGHAR', 'استثمار': 'ISTITHMAR', 'تعاون': 'TAAWUN', 'تضامن': 'TADAMUN', 'كريمي': 'KURAIMI',
+  'استيراد': 'ISTIRAD', 'تصدير': 'TASDIR', 'صرافه': 'SIRAFA', 'دوليه': 'DUWALIYA', 'دولي': 'DUWALI',
+  'بنك': 'BANK', 'مصرف': 'MASRAF', 'اسلامي': 'ISLAMI', 'وطني': 'WATANI', 'عربي': 'ARABI', 'اهلي': 'AHLI',
+  'كويت': 'KUWAIT', 'يمن': 'YEMEN', 'صنعاء': 'SANAA', 'عدن': 'ADEN', 'تعز': 'TAIZ', 'رياض': 'RIYADH',
+  'دبي': 'DUBAI', 'جده': 'JEDDAH', 'قاهره': 'CAIRO', 'عمان': 'OMAN', 'شارع': 'SHARIA', 'حي': 'HAY',
+  'محافظه': 'MUHAFAZAT', 'مدينه': 'MADINAT', 'مبنى': 'MABNA', 'برج': 'BURJ', 'فرع': 'FAR',
+};
+
+// كلمات صينية متعددة المقاطع تكتب متصلة، وكلمات من مقطع واحد تكتب منفصلة (مثل 市 و 路)
+export const PINYIN_WORDS: Record<string, string> = {
+  '有限': 'YOUXIAN', '公司': 'GONGSI', '贸易': 'MAOYI', '科技': 'KEJI', '进出口': 'JINCHUKOU', '实业': 'SHIYE',
+  '集团': 'JITUAN', '银行': 'YINHANG', '分行': 'FENHANG', '支行': 'ZHIHANG', '中国': 'ZHONGGUO', '工业': 'GONGYE',
+  '电子': 'DIANZI', '国际': 'GUOJI', '发展': 'FAZHAN', '服装': 'FUZHUANG', '制品': 'ZHIPIN', '塑料': 'SULIAO',
+  '机械': 'JIXIE', '设备': 'SHEBEI', '股份': 'GUFEN', '商行': 'SHANGHANG', '建设': 'JIANSHE', '农业': 'NONGYE',
+  '招商': 'ZHAOSHANG', '工商': 'GONGSHANG', '交通': 'JIAOTONG', '商业': 'SHANGYE', '责任': 'ZEREN', '企业': 'QIYE',
+  '街道': 'JIEDAO', '大道': 'DADAO', '广场': 'GUANGCHANG', '大厦': 'DASHA', '中心': 'ZHONGXIN', '工业园': 'GONGYEYUAN',
+  '开发区': 'KAIFAQU', '新区': 'XINQU', '香港': 'XIANGGANG', '深圳': 'SHENZHEN', '广州': 'GUANGZHOU', '上海': 'SHANGHAI',
+  '北京': 'BEIJING', '义乌': 'YIWU', '宁波': 'NINGBO', '杭州': 'HANGZHOU', '东莞': 'DONGGUAN', '佛山': 'FOSHAN',
+  '厦门': 'XIAMEN', '青岛': 'QINGDAO', '天津': 'TIANJIN', '广东': 'GUANGDONG', '浙江': 'ZHEJIANG', '江苏': 'JIANGSU',
+  '福建': 'FUJIAN', '山东': 'SHANDONG', '苏州': 'SUZHOU', '温州': 'WENZHOU', '金华': 'JINHUA',
+  '市': 'SHI', '省': 'SHENG', '区': 'QU', '县': 'XIAN', '镇': 'ZHEN', '路': 'LU', '街': 'JIE', '号': 'HAO',
+  '楼': 'LOU', '室': 'SHI', '栋': 'DONG', '层': 'CENG', '村': 'CUN',
+};
+
+// مقاطع pinyin (دون نغمات) للأحرف الشائعة في أسماء الشركات والبنوك والعناوين
+const PINYIN_TABLE = `
+  安AN 百BAI 宝BAO 北BEI 本BEN 博BO 财CAI 彩CAI 昌CHANG 长CHANG 超CHAO 辰CHEN 成CHENG 诚CHENG 城CHENG 创CHUANG 春CHUN 达DA 大DA 德DE 鼎DING
+  东DONG 发FA 丰FENG 峰FENG 福FU 富FU 港GANG 高GAO 工GONG 广GUANG 国GUO 海HAI 行HANG 豪HAO 好HAO 和HE 合HE 恒HENG 宏HONG 弘HONG 鸿HONG 红HONG
+  虹HONG 华HUA 辉HUI 汇HUI 惠HUI 吉JI 佳JIA 嘉JIA 家JIA 建JIAN 江JIANG 金JIN 锦JIN 晶JING 精JING 京JING 景JING 久JIU 俊JUN 凯KAI 康KANG 科KE
+  坤KUN 蓝LAN 乐LE 雷LEI 力LI 利LI 立LI 丽LI 联LIAN 亮LIANG 林LIN 龙LONG 隆LONG 美MEI 明MING 铭MING 南NAN 宁NING 鹏PENG 平PING 启QI 奇QI 千QIAN
+  强QIANG 庆QING 清QING 全QUAN 泉QUAN 仁REN 日RI 荣RONG 瑞RUI 润RUN 森SEN 山SHAN 上SHANG 尚SHANG 胜SHENG 盛SHENG 圣SHENG 世SHI 顺SHUN 思SI
+  泰TAI 天TIAN 通TONG 同TONG 万WAN 旺WANG 威WEI 伟WEI 维WEI 文WEN 新XIN 信XIN 鑫XIN 星XING 兴XING 雄XIONG 轩XUAN 阳YANG 洋YANG 耀YAO 业YE 一YI
+  亿YI 益YI 艺YI 银YIN 英YING 永YONG 优YOU 友YOU 宇YU 裕YU 元YUAN 源YUAN 远YUAN 悦YUE 越YUE 云YUN 泽ZE 展ZHAN 振ZHEN 正ZHENG 志ZHI 智ZHI
+  中ZHONG 众ZHONG 州ZHOU 卓ZHUO 子ZI 综ZONG 西XI 湖HU 园YUAN 场CHANG 王WANG 李LI 张ZHANG 刘LIU 陈CHEN 杨YANG 黄HUANG 赵ZHAO 吴WU 周ZHOU 徐XU
+  孙SUN 马MA 朱ZHU 胡HU 郭GUO 何HE 罗LUO 郑ZHENG 梁LIANG 谢XIE 宋SONG 唐TANG 许XU 韩HAN 冯FENG 邓DENG 曹CAO 彭PENG 曾ZENG 萧XIAO 田TIAN 董DONG
+  潘PAN 袁YUAN 蔡CAI 蒋JIANG 余YU 叶YE 杜DU 程CHENG 魏WEI 苏SU 吕LV 丁DING 任REN 沈SHEN 姚YAO 卢LU 钟ZHONG 姜JIANG 崔CUI 谭TAN 陆LU 范FAN
+  汪WANG 廖LIAO 石SHI 贾JIA 夏XIA 付FU 方FANG 白BAI 邹ZOU 孟MENG 熊XIONG 秦QIN 邱QIU 尹YIN 薛XUE 闫YAN 段DUAN 侯HOU 龚GONG 史SHI 陶TAO 黎LI
+  贺HE 顾GU 毛MAO 郝HAO 钱QIAN 严YAN 覃QIN 武WU 戴DAI 莫MO 孔KONG 向XIANG 汤TANG 电DIAN 器QI 材CAI 料LIAO 纺FANG 织ZHI 品PIN 服FU 饰SHI 鞋XIE
+  包BAO 装ZHUANG 具JU 五WU 贸MAO 易YI 商SHANG 务WU 物WU 流LIU 运YUN 输SHU 进JIN 出CHU 口KOU 制ZHI 造ZAO 厂CHANG 机JI 械XIE 化HUA 塑SU 胶JIAO
+  玻BO 璃LI 瓷CI 木MU 钢GANG 铁TIE 铝LV 铜TONG 纸ZHI 灯DENG 光GUANG 能NENG 汽QI 车CHE 配PEI 件JIAN 农NONG 食SHI 茶CHA 酒JIU 药YAO 医YI 疗LIAO
+  技JI 术SHU 网WANG 络LUO 数SHU 码MA 控KONG 股GU 份FEN 限XIAN 司SI 公GONG 集JI 团TUAN 分FEN 支ZHI 总ZONG 交JIAO 招ZHAO 民MIN 生SHENG 浦PU 第DI
+  二ER 三SAN 四SI 六LIU 七QI 八BA 九JIU 十SHI 路LU 道DAO 街JIE 巷XIANG 弄NONG 号HAO 楼LOU 层CENG 室SHI 座ZUO 栋DONG 幢ZHUANG 单DAN 厦SHA 区QU
+  镇ZHEN 村CUN 乡XIANG 县XIAN 市SHI 省SHENG 深SHEN 圳ZHEN 莞GUAN 佛FO 珠ZHU 汕SHAN 头TOU 杭HANG 温WEN 绍SHAO 台TAI 义YI 乌WU 门MEN 漳ZHANG
+  青QING 岛DAO 烟YAN 潍WEI 济JI 津JIN 沪HU 锡XI 常CHANG 扬YANG 莆PU 晋JIN 香XIANG 澳AO 粤YUE 浙ZHE 闽MIN 鲁LU
+`;
+
+export const PINYIN_CHARS: Record<string, string> = Object.fromEntries(
+  [...PINYIN_TABLE.matchAll(/(\p{Script=Han})([A-Z]+)/gu)].map(([, char, syllable]) => [char, syllable]),
+);
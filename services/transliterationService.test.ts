@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedData } from '../types';
+import { needsTransliteration, transliterate, transliterateFields } from './transliterationService';
+
+describe('transliterate', () => {
+  it('يستخدم قاموس الكلمات ويفصل أداة التعريف', () => {
+    expect(transliterate('إبراهيم')).toBe('IBRAHIM');
+    expect(transliterate('شركة الإمارات للتجارة')).toBe('SHARIKAT AL IMARAT LIL TIJARA');
+  });
+
+  it('يكتب "عبد" مع الاسم التالي دون أداة التعريف', () => {
+    expect(transliterate('عبد الرحمن')).toBe('ABDUL RAHMAN');
+  });
+
+  it('يحافظ على الألف المكسورة في الكلمات خارج القاموس', () => {
+    expect(transliterate('إيناس')).toBe('INAS');
+  });
+
+  it('يبقي الأرقام والأجزاء اللاتينية ويحول الفواصل العربية', () => {
+    expect(transliterate('مبنى 12، KING ROAD')).toBe('MABNA 12, KING ROAD');
+  });
+
+  it('يحول الأحرف الصينية ويترك النص اللاتيني كما هو', () => {
+    expect(transliterate('上海')).toBe('SHANGHAI');
+    expect(transliterate('Acme Trading Co.')).toBe('ACME TRADING CO.');
+  });
+});
+
+describe('transliterateFields', () => {
+  it('يحول حقول الاسم والبنك والعنوان غير اللاتينية فقط', () => {
+    const data = { beneficiaryName: 'إبراهيم', bankName: 'HSBC', address: '上海', accountNumber: '' } as ExtractedData;
+    expect(transliterateFields(data)).toEqual({ beneficiaryName: 'IBRAHIM', address: 'SHANGHAI' });
+    expect(needsTransliteration('HSBC')).toBe(false);
+  });
+});
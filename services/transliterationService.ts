@@ -0,0 +1,136 @@
+import { ExtractedData, OutputScript, TransliterableFieldKey } from '../types';
+import { normalizeForComparison } from './reconciliationService';
+import { ARABIC_LETTERS, ARABIC_WORDS, PINYIN_CHARS, PINYIN_WORDS } from './transliterationData';
+
+const SCRIPT_KEY = 'manea-pro:output-script';
+
+// الحقول التي تحتاجها بوابات البنوك بالأحرف اللاتينية
+export const TRANSLITERABLE_FIELDS: TransliterableFieldKey[] = ['beneficiaryName', 'bankName', 'address'];
+
+const ARABIC_PATTERN = /[\u0600-\u06FF]/;
+const HAN_PATTERN = /\p{Script=Han}/u;
+
+// normalizeForComparison يوحد إ إلى ا، فتُستبدل قبله بحرف لا يوحده حتى تبقى الكسرة معروفة (إسماعيل ISMAIL وليس ASMAIL)
+const HAMZA_BELOW = 'ٳ';
+const HAMZA_BELOW_PATTERN = new RegExp(HAMZA_BELOW, 'g');
+
+const WORD_INDEX = new Map(Object.entries(ARABIC_WORDS).map(([word, latin]) => [normalizeForComparison(word), latin]));
+const LONGEST_PINYIN_WORD = Math.max(...Object.keys(PINYIN_WORDS).map(word => word.length));
+
+export const needsTransliteration = (value?: string): boolean => !!value && (ARABIC_PATTERN.test(value) || HAN_PATTERN.test(value));
+
+// تحويل كلمة غير موجودة في القاموس حرفاً حرفاً؛ الحروف القصيرة غير مكتوبة فنضيف A بين أول حرفين ساكنين
+const transliterateLetters = (word: string): string => {
+  let result = '';
+  [...word].forEach((char, i) => {
+    const isFirst = i === 0;
+    const isLast = i === word.length - 1;
+    let latin: string;
+    if (char === 'ا' || char === 'آ') latin = 'A';
+    else if (char === HAMZA_BELOW) latin = 'I';
+    else if (char === 'ي' && word[i - 1] === HAMZA_BELOW) latin = ''; // إيمان IMAN
+    else if (char === 'و') latin = isFirst ? 'W' : 'OU';
+    else if (char === 'ي') latin = isFirst ? 'Y' : isLast ? 'I' : 'EE';
+    else if (char === 'ه' && isLast) latin = 'A'; // التاء المربوطة بعد التوحيد
+    else if ('ءئؤ'.includes(char)) latin = '';
+    else latin = ARABIC_LETTERS[char] ?? char;
+
+    const next = word[i + 1];
+    const isConsonant = (c?: string) => !!c && c in ARABIC_LETTERS && c !== 'ع';
+    if (isFirst && isConsonant(char) && isConsonant(next)) latin += 'A';
+    result += latin;
+  });
+  return result;
+};
+
+const transliterateArabicWord = (word: string): string => {
+  // مفاتيح القاموس موحدة فتُبحث الكلمة بصيغتها الموحدة
+  const key = word.replace(HAMZA_BELOW_PATTERN, 'ا');
+  if (WORD_INDEX.has(key)) return WORD_INDEX.get(key)!;
+  // أدوات التعريف والجر المتصلة بالكلمة
+  for (const [prefix, latin] of [['وال', 'WAL '], ['بال', 'BIL '], ['لل', 'LIL '], ['ال', 'AL ']] as const) {
+    if (word.startsWith(prefix) && word.length > prefix.length + 1) return latin + transliterateArabicWord(word.slice(prefix.length));
+  }
+  if (word.startsWith('و') && WORD_INDEX.has(key.slice(1))) return `WA ${WORD_INDEX.get(key.slice(1))}`;
+  return transliterateLetters(word);
+};
+
+const transliterateArabic = (text: string): string => {
+  const words = normalizeForComparison(text.replace(/إ/g, HAMZA_BELOW)).split(' ');
+  return words
+    .map((word, i) => {
+      const latin = transliterateArabicWord(word);
+      // "عبد الرحمن" تكتب ABDUL RAHMAN وليس ABDUL AL RAHMAN
+      return words[i - 1] === 'عبد' ? latin.replace(/^AL /, '') : latin;
+    })
+    .join(' ');
+};
+
+// تحويل الأحرف الصينية: الكلمات المعروفة بأطول تطابق، والأحرف المتتالية خارجها تُجمع في كلمة واحدة (مثل أسماء العلامات)
+const transliterateChinese = (text: string): string => {
+  const words: string[] = [];
+  let run = ''; // مقاطع أحرف متتالية خارج قاموس الكلمات
+  let plain = ''; // نص غير صيني (أرقام، أحرف لاتينية، رموز) يبقى كما هو
+  const flush = () => {
+    if (run) words.push(run);
+    if (plain) words.push(plain);
+    run = '';
+    plain = '';
+  };
+
+  for (let i = 0; i < text.length;) {
+    if (!HAN_PATTERN.test(text[i])) {
+      if (run) flush();
+      plain += text[i++];
+      continue;
+    }
+    if (plain) flush();
+    let length = Math.min(LONGEST_PINYIN_WORD, text.length - i);
+    while (length > 0 && !PINYIN_WORDS[text.slice(i, i + length)]) length--;
+    if (length > 0) {
+      flush();
+      words.push(PINYIN_WORDS[text.slice(i, i + length)]);
+      i += length;
+    } else {
+      run += PINYIN_CHARS[text[i]] ?? text[i];
+      i++;
+    }
+  }
+  flush();
+
+  return words.join(' ');
+};
+
+/**
+ * يحول النص العربي أو الصيني إلى صيغة لاتينية موحدة بأحرف كبيرة. النص اللاتيني يعاد كما هو.
+ * الأحرف الصينية غير الموجودة في الجدول المحلي تبقى دون تحويل.
+ */
+export const transliterate = (value: string): string => {
+  // الفواصل والأقواس العربية والصينية غير مسموحة في رسائل SWIFT
+  let result = value.replace(/[،，、]/g, ', ').replace(/（/g, '(').replace(/）/g, ')');
+  if (HAN_PATTERN.test(result)) result = transliterateChinese(result);
+  if (ARABIC_PATTERN.test(result)) {
+    // تحويل المقاطع العربية فقط مع إبقاء الأرقام والأجزاء اللاتينية في العنوان
+    result = result.replace(/[\u0600-\u06FF][\u0600-\u06FF\s]*/g, segment => {
+      const trailing = segment.match(/\s*$/)![0];
+      return transliterateArabic(segment) + trailing;
+    });
+  }
+  return result.replace(/\s+([,)])/g, '$1').replace(/\s+/g, ' ').trim().toUpperCase();
+};
+
+/**
+ * الصيغة اللاتينية لحقول الاسم والبنك والعنوان المكتوبة بالعربية أو الصينية.
+ */
+export const transliterateFields = (data: ExtractedData): Partial<Record<TransliterableFieldKey, string>> =>
+  Object.fromEntries(
+    TRANSLITERABLE_FIELDS
+      .filter(key => needsTransliteration(data[key]))
+      .map(key => [key, transliterate(data[key])]),
+  );
+
+export const loadOutputScript = (): OutputScript => (localStorage.getItem(SCRIPT_KEY) === 'latin' ? 'latin' : 'original');
+
+export const saveOutputScript = (script: OutputScript) => {
+  localStorage.setItem(SCRIPT_KEY, script);
+};
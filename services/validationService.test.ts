@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { validateBic, validateIban } from './validationService';
+
+describe('validateIban', () => {
+  it('يقبل IBAN صحيحاً مع المسافات والأحرف الصغيرة', () => {
+    expect(validateIban('gb82 west 1234 5698 7654 32').status).toBe('valid');
+    expect(validateIban('DE89370400440532013000', 'Germany').status).toBe('valid');
+  });
+
+  it('يرفض خانة تحقق خاطئة', () => {
+    const result = validateIban('GB82WEST12345698765433');
+    expect(result.status).toBe('invalid');
+    expect(result.message).toContain('Checksum');
+  });
+
+  it('يرفض الطول غير المعتمد للدولة', () => {
+    expect(validateIban('DE8937040044053201300').status).toBe('invalid');
+  });
+
+  it('يرفض عدم تطابق دولة IBAN مع الدولة المستخرجة', () => {
+    expect(validateIban('DE89370400440532013000', 'China').status).toBe('invalid');
+  });
+
+  it('يعتبر رقم الحساب المحلي غير قابل للتحقق', () => {
+    expect(validateIban('6222021234567890123').status).toBe('unverifiable');
+  });
+});
+
+describe('validateBic', () => {
+  it('يقبل رموز 8 و 11 خانة', () => {
+    expect(validateBic('ICBKCNBJ').status).toBe('valid');
+    expect(validateBic('icbk cnbj xxx').status).toBe('valid');
+  });
+
+  it('يرفض الطول والبنية غير الصحيحين', () => {
+    expect(validateBic('ICBKCNB').status).toBe('invalid');
+    expect(validateBic('1CBKCNBJ').status).toBe('invalid');
+    expect(validateBic('ICBK1NBJ').status).toBe('invalid');
+  });
+
+  it('ينبه إلى عدم تطابق الدولة دون رفض البنية', () => {
+    const result = validateBic('ICBKCNBJ', 'Germany', 'DE89370400440532013000');
+    expect(result.status).toBe('valid');
+    expect(result.warnings).toHaveLength(2);
+  });
+
+  it('ينبه إلى رموز الاختبار', () => {
+    expect(validateBic('ICBKCNB0').warnings?.[0]).toContain('Test BIC');
+  });
+});
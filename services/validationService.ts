@@ -0,0 +1,141 @@
+import { ExtractedData, FieldValidation, FieldValidationMap } from '../types';
+import { resolveCountryCode } from './countryData';
+import { validateLocation } from './addressService';
+import { checkLetterhead } from './documentTypeService';
+import { validateCurrency } from './invoiceService';
+
+// أطوال IBAN المعتمدة لكل دولة حسب سجل SWIFT IBAN Registry
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BI: 27,
+  BR: 29, BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DJ: 27, DK: 18, DO: 28,
+  EE: 20, EG: 29, ES: 24, FI: 18, FK: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23,
+  GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27,
+  JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, LY: 25,
+  MC: 27, MD: 24, ME: 22, MK: 19, MN: 20, MR: 27, MT: 31, MU: 30, NI: 28, NL: 18,
+  NO: 15, OM: 23, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, RU: 33,
+  SA: 24, SC: 31, SD: 18, SE: 24, SI: 19, SK: 24, SM: 27, SO: 23, ST: 25, SV: 28,
+  TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20, YE: 30,
+};
+
+// حساب باقي القسمة على 97 على أجزاء لتجنب تجاوز حدود الأعداد في JavaScript
+const ibanMod97 = (iban: string): number => {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+};
+
+/**
+ * يستخرج رمز الدولة من IBAN إذا كانت القيمة بصيغة IBAN، وإلا يعيد null.
+ */
+export const getIbanCountry = (accountNumber?: string): string | null => {
+  const iban = (accountNumber || '').replace(/[\s\-_]/g, '').toUpperCase();
+  const code = iban.slice(0, 2);
+  return /^[A-Z]{2}\d{2}/.test(iban) && IBAN_LENGTHS[code] ? code : null;
+};
+
+/**
+ * يتحقق من رقم الحساب كـ IBAN: رمز الدولة، الطول المعتمد، خانة التحقق (mod-97)، وتطابقه مع الدولة المستخرجة.
+ * أرقام الحسابات المحلية (غير IBAN) تُعلَّم "غير قابلة للتحقق" وليس "خاطئة".
+ */
+export const validateIban = (accountNumber: string, country?: string): FieldValidation => {
+  const iban = accountNumber.replace(/[\s\-_]/g, '').toUpperCase();
+  const countryCode = getIbanCountry(iban);
+
+  if (!countryCode) {
+    return { status: 'unverifiable', message: 'رقم حساب محلي وليس IBAN، لا يمكن التحقق منه آلياً.' };
+  }
+
+  if (!/^[A-Z0-9]+$/.test(iban)) {
+    return { status: 'invalid', message: 'يحتوي رقم IBAN على رموز غير مسموح بها.' };
+  }
+
+  const expectedLength = IBAN_LENGTHS[countryCode];
+  if (iban.length !== expectedLength) {
+    return { status: 'invalid', message: `طول IBAN هو ${iban.length} خانة، بينما الطول المعتمد لدولة ${countryCode} هو ${expectedLength} خانة.` };
+  }
+
+  if (ibanMod97(iban) !== 1) {
+    return { status: 'invalid', message: 'خانة التحقق (Checksum) في IBAN غير صحيحة، قد يكون أحد الأرقام مقروءاً بشكل خاطئ.' };
+  }
+
+  const extractedCountry = resolveCountryCode(country);
+  if (extractedCountry && extractedCountry !== countryCode) {
+    return { status: 'invalid', message: `رمز دولة IBAN (${countryCode}) لا يطابق الدولة المستخرجة (${country}).` };
+  }
+
+  return { status: 'valid', message: 'رقم IBAN صحيح.' };
+};
+
+/**
+ * يتحقق من بنية رمز SWIFT/BIC: 4 أحرف للبنك، حرفان للدولة، خانتان للموقع، و3 خانات اختيارية للفرع.
+ * عدم تطابق دولة الرمز مع الدولة المستخرجة أو دولة IBAN يظهر كتنبيه وليس كخطأ في البنية.
+ */
+export const validateBic = (swiftCode: string, country?: string, accountNumber?: string): FieldValidation => {
+  const bic = swiftCode.replace(/\s/g, '').toUpperCase();
+
+  if (bic.length !== 8 && bic.length !== 11) {
+    return { status: 'invalid', message: `طول رمز السويفت ${bic.length} خانة، والمسموح 8 أو 11 خانة فقط.` };
+  }
+  if (!/^[A-Z0-9]+$/.test(bic)) {
+    return { status: 'invalid', message: 'يحتوي رمز السويفت على رموز غير مسموح بها.' };
+  }
+  if (!/^[A-Z]{4}/.test(bic)) {
+    return { status: 'invalid', message: 'رمز البنك (الخانات 1-4) يجب أن يتكون من أحرف فقط.' };
+  }
+  if (!/^[A-Z]{2}$/.test(bic.slice(4, 6))) {
+    return { status: 'invalid', message: 'رمز الدولة (الخانات 5-6) يجب أن يتكون من حرفين.' };
+  }
+
+  const bicCountry = bic.slice(4, 6);
+  const warnings: string[] = [];
+
+  const extractedCountry = resolveCountryCode(country);
+  if (extractedCountry && extractedCountry !== bicCountry) {
+    warnings.push(`دولة السويفت (${bicCountry}) لا تطابق الدولة المستخرجة (${country}).`);
+  }
+
+  const ibanCountry = getIbanCountry(accountNumber);
+  if (ibanCountry && ibanCountry !== bicCountry) {
+    warnings.push(`دولة السويفت (${bicCountry}) لا تطابق دولة IBAN (${ibanCountry}).`);
+  }
+
+  // الخانة الثانية من رمز الموقع "0" تشير إلى رمز اختباري غير مستخدم في الحوالات الفعلية
+  if (bic[7] === '0') {
+    warnings.push('رمز السويفت هو رمز اختباري (Test BIC) ولا يستخدم في الحوالات الفعلية.');
+  }
+
+  return { status: 'valid', message: 'بنية رمز السويفت صحيحة.', ...(warnings.length ? { warnings } : {}) };
+};
+
+/**
+ * يحسب حالة التحقق لكل حقل قابل للفحص في البيانات المستخرجة.
+ */
+export const validateExtractedData = (data: ExtractedData): FieldValidationMap => {
+  const validation: FieldValidationMap = {};
+  if (data.accountNumber) {
+    validation.accountNumber = validateIban(data.accountNumber, data.country);
+  }
+  if (data.swiftCode) {
+    validation.swiftCode = validateBic(data.swiftCode, data.country, data.accountNumber);
+  }
+  if (data.currency) {
+    validation.currency = validateCurrency(data.currency);
+  }
+  if (data.country) {
+    validation.country = data.countryCode
+      ? { status: 'valid', message: `رمز الدولة ${data.countryCode} (ISO 3166-1).` }
+      : { status: 'unverifiable', message: 'الدولة غير موجودة في جدول الدول المحلي (ISO 3166-1).' };
+  }
+  Object.assign(validation, validateLocation(data));
+  const letterhead = checkLetterhead(data);
+  if (letterhead) {
+    validation.bankName = letterhead;
+  }
+  return validation;
+};
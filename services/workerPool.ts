@@ -0,0 +1,165 @@
+export type ParseKind = 'docx' | 'doc' | 'excel' | 'text' | 'pdf' | 'base64';
+
+export interface ParseRequest {
+  id: string;
+  kind: ParseKind;
+  buffer: ArrayBuffer; // يُنقل إلى العامل (transferable) دون نسخ
+  mimeType: string;
+}
+
+export interface ParseResult {
+  type: 'text' | 'base64' | 'mixed';
+  content: string; // النص، أو base64 عندما يكون type = 'base64'
+  mimeType?: string;
+  scanned?: { data: string; pages: number[] }; // mixed: PDF بالصفحات الممسوحة فقط (base64) وأرقامها في الملف الأصلي
+}
+
+export type ParseResponse =
+  | { id: string; success: true; result: ParseResult }
+  | { id: string; success: false; error: string };
+
+export interface ParseOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface WorkerPool {
+  run: (file: File, kind: ParseKind, options?: ParseOptions) => Promise<ParseResult>;
+  terminate: () => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// عامل لكل نواة مع ترك نواة للواجهة، وبحد أقصى 4 لأن كل عامل يحمّل مكتبات القراءة في ذاكرته
+export const DEFAULT_POOL_SIZE = Math.min(Math.max((navigator.hardwareConcurrency || 2) - 1, 1), 4);
+
+interface Task {
+  id: string;
+  file: File;
+  kind: ParseKind;
+  options: ParseOptions;
+  resolve: (result: ParseResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  task: Task | null;
+  timer?: ReturnType<typeof setTimeout>;
+  onAbort?: () => void;
+}
+
+/**
+ * مجموعة عمال لقراءة الملفات بالتوازي. تُنشأ العمال عند الحاجة حتى الحد الأقصى، ولكل مهمة معرف ومهلة.
+ * الإلغاء أو تجاوز المهلة أثناء التنفيذ يُنهي العامل ويستبدله لأن المكتبات لا تدعم الإيقاف من الداخل.
+ */
+export const createWorkerPool = (size = DEFAULT_POOL_SIZE): WorkerPool => {
+  const slots: Slot[] = [];
+  const queue: Task[] = [];
+  let nextId = 0;
+
+  const spawn = (slot: Slot) => {
+    slot.worker = new Worker(new URL('../workers/parserWorker.ts', import.meta.url), { type: 'module' });
+    slot.worker.onmessage = (e: MessageEvent<ParseResponse>) => {
+      const task = slot.task;
+      // نتيجة متأخرة لمهمة أُلغيت أو انتهت مهلتها
+      if (!task || e.data.id !== task.id) return;
+      const response = e.data;
+      finish(slot, () => {
+        if (response.success === true) task.resolve(response.result);
+        else task.reject(new Error(response.error));
+      });
+    };
+    slot.worker.onerror = (e) => {
+      const task = slot.task;
+      e.preventDefault();
+      restart(slot);
+      if (task) finish(slot, () => task.reject(new Error(e.message || 'Worker crashed')));
+    };
+  };
+
+  const restart = (slot: Slot) => {
+    slot.worker.terminate();
+    spawn(slot);
+  };
+
+  const finish = (slot: Slot, settle: () => void) => {
+    clearTimeout(slot.timer);
+    if (slot.onAbort) slot.task?.options.signal?.removeEventListener('abort', slot.onAbort);
+    slot.task = null;
+    slot.onAbort = undefined;
+    settle();
+    dispatch();
+  };
+
+  const start = async (slot: Slot, task: Task) => {
+    slot.task = task;
+    const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = task.options;
+
+    slot.onAbort = () => {
+      restart(slot);
+      finish(slot, () => task.reject(signal!.reason));
+    };
+    signal?.addEventListener('abort', slot.onAbort, { once: true });
+    slot.timer = setTimeout(() => {
+      restart(slot);
+      finish(slot, () => task.reject(new Error(`انتهت مهلة قراءة الملف (${Math.round(timeoutMs / 1000)} ثانية)`)));
+    }, timeoutMs);
+
+    try {
+      const buffer = await task.file.arrayBuffer();
+      if (slot.task !== task) return; // أُلغيت أثناء القراءة
+      const request: ParseRequest = { id: task.id, kind: task.kind, buffer, mimeType: task.file.type || 'application/octet-stream' };
+      slot.worker.postMessage(request, [buffer]);
+    } catch (e) {
+      if (slot.task === task) finish(slot, () => task.reject(e));
+    }
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let slot = slots.find(s => !s.task);
+      if (!slot && slots.length < size) {
+        slot = { task: null } as Slot;
+        spawn(slot);
+        slots.push(slot);
+      }
+      if (!slot) return;
+      start(slot, queue.shift()!);
+    }
+  };
+
+  const run = (file: File, kind: ParseKind, options: ParseOptions = {}) =>
+    new Promise<ParseResult>((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const task: Task = { id: `task-${++nextId}`, file, kind, options, resolve, reject };
+      // مهمة ملغاة قبل أن تبدأ تُحذف من الطابور فقط
+      signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(task);
+        if (index >= 0) {
+          queue.splice(index, 1);
+          reject(signal.reason);
+        }
+      }, { once: true });
+      queue.push(task);
+      dispatch();
+    });
+
+  const terminate = () => {
+    queue.splice(0).forEach(task => task.reject(new Error('Worker pool terminated')));
+    for (const slot of slots) {
+      const task = slot.task;
+      clearTimeout(slot.timer);
+      slot.worker.terminate();
+      slot.task = null;
+      task?.reject(new Error('Worker pool terminated'));
+    }
+    slots.length = 0;
+  };
+
+  return { run, terminate };
+};
@@ -1,19 +1,304 @@
+export type ExtractedFieldKey =
+  | 'beneficiaryName'
+  | 'accountNumber'
+  | 'swiftCode'
+  | 'bankName'
+  | 'country'
+  | 'province'
+  | 'city'
+  | 'address'
+  | 'goodsDescription'
+  | 'invoiceNumber'
+  | 'invoiceDate'
+  | 'buyerName'
+  | 'amount'
+  | 'currency'
+  | 'paymentTerms'
+  | 'incoterms';
+
+// 'unverifiable' تعني أن القيمة ليست بصيغة يمكن التحقق منها آلياً (مثل رقم حساب محلي)، وليست خاطئة
+export type ValidationStatus = 'valid' | 'invalid' | 'unverifiable';
+
+export interface FieldValidation {
+  status: ValidationStatus;
+  message: string;
+  warnings?: string[]; // تنبيهات لا تجعل القيمة خاطئة بحد ذاتها (مثل عدم تطابق الدولة)
+}
+
+export type FieldValidationMap = Partial<Record<ExtractedFieldKey, FieldValidation>>;
+
+// مصدر قيمة الحقل في المستند ومدى ثقة المستخرج بها
+export interface FieldEvidence {
+  confidence: number; // من 0 إلى 1
+  snippet: string; // النص كما ورد في المستند
+  page?: number; // رقم الصفحة لملفات PDF
+}
+
+export type FieldEvidenceMap = Partial<Record<ExtractedFieldKey, FieldEvidence>>;
+
+// نطاق الصفحات التي ورد فيها السجل داخل المستند (يبدأ الترقيم من 1)
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+// تعديل يدوي على حقل: القيمة الأصلية من النموذج ومن عدّلها ومتى
+export interface FieldEdit {
+  originalValue: string;
+  editedBy: string;
+  editedAt: number;
+}
+
+export type FieldEditMap = Partial<Record<ExtractedFieldKey, FieldEdit>>;
+
+// نوع المستند التجاري، ويحدد مخطط الاستخراج المطبق عليه
+export type DocumentType = 'commercialInvoice' | 'proformaInvoice' | 'billOfLading' | 'packingList' | 'bankLetter' | 'other';
+
+// حقول خاصة بنوع المستند تُستخرج إضافة إلى البيانات المصرفية
+export type DocumentDetailKey =
+  | 'consignee'
+  | 'notifyParty'
+  | 'billOfLadingNumber'
+  | 'vesselName'
+  | 'portOfLoading'
+  | 'portOfDischarge'
+  | 'packageCount'
+  | 'grossWeight'
+  | 'netWeight'
+  | 'letterheadBank'
+  | 'letterReference'
+  | 'letterDate'
+  | 'signatory'
+  | 'validUntil';
+
+export type DocumentDetails = Partial<Record<DocumentDetailKey, string>>;
+
+// أجزاء العنوان بعد تحليله؛ الأجزاء غير المتعرف عليها تبقى في حقل العنوان الكامل فقط
+export interface AddressParts {
+  street?: string;
+  building?: string; // رقم المبنى أو اسمه مع الطابق أو الوحدة
+  postalCode?: string;
+  district?: string;
+}
+
+// الحقول التي تُحفظ لها صيغة لاتينية إلى جانب الكتابة الأصلية
+export type TransliterableFieldKey = 'beneficiaryName' | 'bankName' | 'address';
+
+// الكتابة المستخدمة عند النسخ والتصدير
+export type OutputScript = 'original' | 'latin';
+
+// رمز HS مرشح لوصف البضاعة، من النموذج أو من الجدول المحلي
+export interface HsCodeSuggestion {
+  code: string; // 4 إلى 6 أرقام دون نقاط
+  description: string;
+  source: 'model' | 'local';
+}
 
 export interface ExtractedData {
   beneficiaryName: string;
   accountNumber: string;
   swiftCode: string;
   bankName: string;
-  country: string;
+  country: string; // الاسم الإنجليزي المعتمد عند التعرف على الدولة
+  countryCode?: string; // ISO 3166-1 alpha-2
   province: string;
   city: string;
   address: string;
+  addressParts?: AddressParts;
+  latin?: Partial<Record<TransliterableFieldKey, string>>; // الصيغة اللاتينية للحقول المكتوبة بالعربية أو الصينية
   goodsDescription?: string;
+  invoiceNumber?: string;
+  invoiceDate?: string; // YYYY-MM-DD عند إمكان قراءة التاريخ
+  buyerName?: string; // المشتري أو المرسل إليه
+  amount?: number; // إجمالي المبلغ المستحق
+  currency?: string; // رمز ISO 4217
+  paymentTerms?: string;
+  incoterms?: string; // مثل "FOB SHANGHAI"
+  validation?: FieldValidationMap;
+  evidence?: FieldEvidenceMap;
+  edits?: FieldEditMap; // الحقول التي صححها المراجع يدوياً
+  pages?: PageRange; // عند احتواء المستند على أكثر من مستفيد أو فاتورة
+  extractedBy?: string; // معرف المزود، أو 'rules' عند الاستخراج المحلي بالقواعد، أو 'local' للبيانات التجريبية الثابتة
+  documentType?: DocumentType;
+  details?: DocumentDetails; // الحقول الخاصة بنوع المستند
+  hsCodes?: HsCodeSuggestion[]; // رموز HS مرشحة لوصف البضاعة، الأرجح أولاً
 }
 
 export interface EnrichedData extends ExtractedData {
   companyInfo?: string;
+  companyReport?: CompanyReport;
   sources?: { uri: string; title: string }[];
+  enrichmentError?: EnrichmentError;
+}
+
+// نتيجة مطابقة حقل واحد بين جميع مستندات الدفعة
+export interface FieldReconciliation {
+  agreeCount: number; // عدد المستندات المتفقة مع القيمة الأغلبية
+  total: number; // إجمالي المستندات في الدفعة
+  majorityValue: string | null; // null عند التعادل أو غياب القيمة في كل المستندات
+  mismatchedIndices: number[]; // مستندات قيمتها تخالف الأغلبية
+  missingIndices: number[]; // مستندات لا تحتوي على قيمة لهذا الحقل
+}
+
+export type ReconciliationReport = Partial<Record<ExtractedFieldKey, FieldReconciliation>>;
+
+// مطابقة المبالغ بين مستندات الدفعة بعد تحويلها إلى العملة الأساسية
+export type AmountReconciliationStatus = 'pass' | 'fail' | 'incomplete';
+
+export interface AmountComparison {
+  index: number; // ترتيب المستند في الدفعة
+  amount: number;
+  currency?: string;
+  convertedAmount: number | null; // null عند غياب عملة المستند أو سعر صرفها
+  deviationPercent: number | null; // الفرق عن المبلغ المرجعي كنسبة مئوية
+}
+
+export interface AmountReconciliation {
+  status: AmountReconciliationStatus;
+  baseCurrency: string;
+  tolerancePercent: number;
+  referenceIndex: number | null; // المستند المرجعي: أول فاتورة، وإلا أول مستند يحتوي مبلغاً
+  comparisons: AmountComparison[]; // المستندات التي تحتوي مبلغاً فقط
+  mismatchedIndices: number[]; // تتجاوز الفرق المسموح
+  missingRateCurrencies: string[]; // عملات لا يوجد لها سعر صرف في الجدول المحلي
+  missingCurrencyIndices: number[]; // مستندات تحتوي مبلغاً دون عملة، فلا تدخل في المقارنة
+}
+
+export type BlocklistRuleType = 'bic' | 'bankName' | 'beneficiaryName' | 'country';
+
+export interface BlocklistEntry {
+  id: string;
+  type: BlocklistRuleType;
+  value: string;
+  reason: string;
+  source: string;
+}
+
+export interface BlocklistMatch {
+  entry: BlocklistEntry;
+  field: ExtractedFieldKey; // الحقل الذي طابق القاعدة
+  matchedValue: string;
+}
+
+// قواعد فحص البضائع المقيدة أو مزدوجة الاستخدام: كلمة في وصف البضاعة أو فصل/بند من نظام HS
+export type RestrictedGoodsRuleType = 'keyword' | 'hsCode';
+
+export interface RestrictedGoodsRule {
+  id: string;
+  type: RestrictedGoodsRuleType;
+  value: string; // للرموز: أرقام الفصل أو البند فقط، مثل 93 أو 8806
+  reason: string;
+  source: string;
+}
+
+export interface RestrictedGoodsMatch {
+  rule: RestrictedGoodsRule;
+  matchedValue: string; // الكلمة المطابقة في الوصف، أو رمز HS المرشح المطابق
+}
+
+// بيانات التحويل التي يدخلها المستخدم لإنشاء رسائل الدفع
+export interface PaymentDetails {
+  amount: string;
+  currency: string;
+  valueDate: string; // YYYY-MM-DD
+  orderingName: string;
+  orderingAccount: string;
+  orderingAddress: string;
+  remittanceInfo: string;
+}
+
+export type PaymentMessageFormat = 'pain001' | 'mt103';
+
+export interface PaymentMessage {
+  format: PaymentMessageFormat;
+  content: string;
+  issues: string[]; // مخالفات لقواعد الصيغة (مجموعة الأحرف أو الطول) يجب تصحيحها قبل الإرسال
+}
+
+// محتوى المستند بعد قراءته، بصيغة مستقلة عن مزود النموذج
+export type DocumentContent =
+  | { kind: 'text'; text: string }
+  | { kind: 'inline'; mimeType: string; data: string } // data بترميز base64
+  // PDF فيه صفحات نصية وأخرى ممسوحة ضوئياً: نص الصفحات النصية، و data ملف بالصفحات الممسوحة فقط
+  | { kind: 'mixed'; text: string; mimeType: string; data: string; scannedPages: number[] };
+
+// فشل جلب المعلومات الإضافية، مع تحديد ما إذا كان مؤقتاً ويمكن إعادة المحاولة
+export interface EnrichmentError {
+  message: string;
+  retryable: boolean;
+  status?: number; // رمز حالة HTTP إن وُجد
+}
+
+// معلومة واحدة في تقرير الشركة مع أرقام المصادر التي وردت فيها (فهارس في قائمة sources)
+export interface ReportClaim {
+  text: string;
+  sourceIndices: number[];
+}
+
+export type CompanyReportCompanyKey = 'activity' | 'headquarters' | 'foundedYear' | 'website' | 'registration';
+export type CompanyReportBankKey = 'headquarters' | 'branchLocation';
+
+// match: البنك والفرع يطابقان رمز السويفت، mismatch: لا يطابقان، unknown: تعذر التحقق
+export type SwiftMatchStatus = 'match' | 'mismatch' | 'unknown';
+
+// تقرير العناية الواجبة عن المستفيد وبنكه وبضاعته، مبني على نتائج البحث
+export interface CompanyReport {
+  company: Partial<Record<CompanyReportCompanyKey, ReportClaim>>;
+  bank: Partial<Record<CompanyReportBankKey, ReportClaim>> & {
+    swiftMatch: SwiftMatchStatus;
+    swiftNote?: ReportClaim;
+  };
+  goods: { summary?: ReportClaim };
+  redFlags: ReportClaim[];
+}
+
+export interface CompanyInfoResult {
+  info: string; // ملخص نصي للنسخ والتصدير، أو رسالة توضيحية عند عدم توفر التقرير
+  report?: CompanyReport;
+  sources: { uri: string; title: string }[];
+  error?: EnrichmentError;
+}
+
+// طريقة تقسيم المستندات متعددة الصفحات إلى سجلات:
+// auto: سجل لكل مستفيد مختلف، page: سجل لكل صفحة، section: سجل لكل قسم مستقل (فاتورة أو خطاب)
+export type DocumentSplitMode = 'auto' | 'page' | 'section';
+
+export interface ExtractOptions {
+  signal?: AbortSignal;
+  splitMode?: DocumentSplitMode;
+  documentType?: DocumentType; // يحدد المخطط والحقول الإضافية المطلوبة
+}
+
+export interface ExtractionProvider {
+  id: string;
+  label: string;
+  model: string; // يدخل في مفتاح الذاكرة المؤقتة
+  promptVersion: number;
+  isAvailable?: () => boolean; // مثلاً: هل يتوفر مفتاح API
+  // سجل واحد لكل مستفيد أو فاتورة في المستند (سجل واحد على الأقل)
+  extract: (content: DocumentContent, options?: ExtractOptions) => Promise<ExtractedData[]>;
+  // تصنيف المستند قبل الاستخراج؛ المزود الذي لا يدعمه يُكتفى معه بالتصنيف المحلي بالكلمات المفتاحية
+  classify?: (content: DocumentContent, signal?: AbortSignal) => Promise<DocumentType>;
+}
+
+export interface EnrichmentProvider {
+  id: string;
+  label: string;
+  model: string;
+  promptVersion: number;
+  enrich: (companyName: string, bankName: string, goodsDescription?: string, swiftCode?: string, signal?: AbortSignal) => Promise<CompanyInfoResult>;
+}
+
+export type ProcessingMode = 'single' | 'multi';
+
+// سجل استخراج محفوظ محلياً في IndexedDB
+export interface HistoryEntry {
+  id: string;
+  fileName: string;
+  contentHash: string; // SHA-256 لمحتوى الملف
+  data: EnrichedData;
+  mode: ProcessingMode;
+  timestamp: number;
 }
 
 export type ProcessingStatus = 'pending' | 'processing' | 'done' | 'error';
@@ -22,6 +307,10 @@ export interface ProcessableFile {
   id: string; // Unique ID for key prop
   file: File;
   status: ProcessingStatus;
-  data?: ExtractedData;
+  data?: EnrichedData;
   error?: string;
-}
\ No newline at end of file
+  record?: { index: number; total: number }; // عند تقسيم ملف واحد إلى عدة سجلات (index يبدأ من 1)
+  documentType?: DocumentType; // يُحدد بعد قراءة الملف وقبل الاستخراج
+  parent?: { id: string; name: string }; // الحاوية (ZIP أو بريد) التي استُخرج منها الملف؛ الملفات من نفس الحاوية تشترك في id
+  fromHistory?: boolean; // صف مضاف من السجل: بياناته محفوظة دون محتوى الملف الأصلي، فلا يمكن إعادة استخراجه
+}
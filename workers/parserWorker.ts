@@ -0,0 +1,160 @@
+// عامل (Web Worker) لقراءة الملفات وتحويلها إلى نص أو base64 خارج الخيط الرئيسي.
+// المكتبات مضمنة في البناء (دون CDN) حتى يعمل التطبيق في الشبكات المقيدة ودون اتصال.
+import mammoth from 'mammoth';
+import { PDFDocument } from 'pdf-lib';
+import { getDocument } from 'pdfjs-dist';
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.mjs';
+import { CFB, read, set_cptable, utils } from 'xlsx';
+import * as cptable from 'xlsx/dist/cpexcel.full.mjs';
+import { ParseRequest, ParseResponse, ParseResult } from '../services/workerPool';
+
+// ترميزات ملفات Excel القديمة (.xls) غير المكتوبة بـ Unicode
+set_cptable(cptable);
+
+// تشغيل محرك pdf.js داخل هذا العامل نفسه بدلاً من إنشاء عامل فرعي يُحمَّل من رابط منفصل
+(globalThis as any).pdfjsWorker = pdfjsWorker;
+
+// الصفحة التي يقل نصها عن هذا الحد (دون المسافات) تُعامل كصفحة ممسوحة ضوئياً
+const MIN_PAGE_TEXT_LENGTH = 30;
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<ParseRequest>) => void) | null;
+  postMessage: (message: ParseResponse) => void;
+};
+
+// ملفات Word القديمة 97-2003 (.doc): النص في مجرى WordDocument مقسماً إلى قطع مدرجة في جدول القطع (Clx) داخل مجرى الجدول
+const readDocText = (data: Uint8Array): string => {
+  const cfb = CFB.read(data, { type: 'array' });
+  const readStream = (name: string): Uint8Array | null => {
+    const entry = CFB.find(cfb, name);
+    return entry?.content ? new Uint8Array(entry.content) : null;
+  };
+  const doc = readStream('WordDocument');
+  if (!doc) throw new Error('WordDocument stream not found');
+  const docView = new DataView(doc.buffer, doc.byteOffset, doc.byteLength);
+  // العلامة fWhichTblStm في ترويسة FIB تحدد مجرى الجدول: 1Table أو 0Table
+  const table = readStream((docView.getUint16(0x0A, true) & 0x0200) ? '1Table' : '0Table');
+  if (!table) throw new Error('Table stream not found');
+  const tableView = new DataView(table.buffer, table.byteOffset, table.byteLength);
+  const fcClx = docView.getUint32(0x01A2, true);
+  const lcbClx = docView.getUint32(0x01A6, true);
+
+  // تخطي مدخلات التنسيق (Prc, 0x01) حتى الوصول إلى جدول القطع (Pcdt, 0x02)
+  let pos = fcClx;
+  while (pos < fcClx + lcbClx && table[pos] === 0x01) pos += 3 + tableView.getUint16(pos + 1, true);
+  if (table[pos] !== 0x02) throw new Error('Piece table not found');
+  const plc = pos + 5;
+  const count = (tableView.getUint32(pos + 1, true) - 4) / 12;
+
+  let text = '';
+  for (let i = 0; i < count; i++) {
+    const length = tableView.getUint32(plc + (i + 1) * 4, true) - tableView.getUint32(plc + i * 4, true);
+    const fc = tableView.getUint32(plc + (count + 1) * 4 + i * 8 + 2, true);
+    if (fc & 0x40000000) {
+      // قطعة مضغوطة: بايت واحد لكل حرف بترميز cp1252
+      const offset = (fc & 0x3FFFFFFF) / 2;
+      text += new TextDecoder('windows-1252').decode(doc.subarray(offset, offset + length));
+    } else {
+      text += new TextDecoder('utf-16le').decode(doc.subarray(fc, fc + length * 2));
+    }
+  }
+  // علامات نهاية الفقرة وخلايا الجداول تصبح أسطراً جديدة، وتُحذف بقية رموز الحقول والتحكم
+  return text.replace(/[\r\x07\x0b]/g, '\n').replace(/[\x00-\x08\x0c\x0e-\x1f]/g, '');
+};
+
+const readExcelText = (buffer: ArrayBuffer): string => {
+  const workbook = read(buffer, { type: 'array' });
+  let fullText = '';
+  for (const sheetName of workbook.SheetNames) {
+    const sheetText = utils.sheet_to_csv(workbook.Sheets[sheetName]);
+    fullText += `--- ${sheetName} ---\n${sheetText}\n\n`;
+  }
+  return fullText;
+};
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const readPdfPages = async (data: Uint8Array): Promise<string[]> => {
+  const pdf = await getDocument({ data, isEvalSupported: false }).promise;
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const { items } = await (await pdf.getPage(i)).getTextContent();
+      pages.push(items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '').join('').trim());
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// ملف PDF بالصفحات المحددة فقط (ترقيم من 1)، حتى تُرسل الصفحات الممسوحة ضوئياً للنموذج دون بقية الملف
+const extractPdfPages = async (data: Uint8Array, pageNumbers: number[]): Promise<Uint8Array> => {
+  const source = await PDFDocument.load(data);
+  const target = await PDFDocument.create();
+  const pages = await target.copyPages(source, pageNumbers.map(n => n - 1));
+  pages.forEach(page => target.addPage(page));
+  return target.save();
+};
+
+/**
+ * يقرأ طبقة النص في PDF محلياً: الصفحات النصية تُرسل كنص، والممسوحة ضوئياً فقط كملف PDF أصغر.
+ * إذا تعذرت قراءة الملف أو كانت كل صفحاته ممسوحة يُرسل كما هو.
+ */
+const parsePdf = async (buffer: ArrayBuffer, mimeType: string): Promise<ParseResult> => {
+  const bytes = new Uint8Array(buffer);
+  const whole = (): ParseResult => ({ type: 'base64', content: toBase64(bytes), mimeType });
+  try {
+    // pdf.js قد ينقل المصفوفة التي يستلمها، لذا نمرر نسخة
+    const pages = await readPdfPages(bytes.slice());
+    const scannedPages = pages.flatMap((text, i) => text.replace(/\s/g, '').length < MIN_PAGE_TEXT_LENGTH ? [i + 1] : []);
+    if (scannedPages.length === pages.length) return whole();
+
+    // علامات الصفحات تتيح للنموذج تحديد نطاق صفحات كل سجل
+    const text = pages.map((pageText, i) => scannedPages.includes(i + 1) ? '' : `--- Page ${i + 1} ---\n${pageText}\n\n`).join('');
+    if (scannedPages.length === 0) return { type: 'text', content: text };
+    return {
+      type: 'mixed',
+      content: text,
+      mimeType,
+      scanned: { data: toBase64(await extractPdfPages(bytes, scannedPages)), pages: scannedPages },
+    };
+  } catch (e) {
+    // ملف محمي أو تالف: نترك قراءته للنموذج
+    console.warn('Could not read PDF text layer, sending the whole file:', e);
+    return whole();
+  }
+};
+
+const parse = async ({ kind, buffer, mimeType }: ParseRequest): Promise<ParseResult> => {
+  switch (kind) {
+    case 'docx':
+      return { type: 'text', content: (await mammoth.extractRawText({ arrayBuffer: buffer })).value };
+    case 'doc':
+      return { type: 'text', content: readDocText(new Uint8Array(buffer)) };
+    case 'excel':
+      return { type: 'text', content: readExcelText(buffer) };
+    case 'text':
+      return { type: 'text', content: new TextDecoder('utf-8').decode(buffer) };
+    case 'pdf':
+      return parsePdf(buffer, mimeType);
+    case 'base64':
+      return { type: 'base64', content: toBase64(buffer), mimeType };
+  }
+};
+
+ctx.onmessage = async (e) => {
+  const { id } = e.data;
+  try {
+    ctx.postMessage({ id, success: true, result: await parse(e.data) });
+  } catch (error: any) {
+    ctx.postMessage({ id, success: false, error: error.message });
+  }
+};